@@ -0,0 +1,192 @@
+import * as fs from "fs";
+import moment from "moment";
+import * as nodePath from "path";
+import { diffLines } from "./src/diff";
+import { FileSystemVault } from "./src/filesystem";
+import { WaypointGenerator } from "./src/generator";
+import { DEFAULT_SETTINGS, WaypointSettings, WaypointType } from "./src/settings";
+import { isFile } from "./src/vault";
+
+// The folder of the plugin within the plugins folder of a vault, as set by the "id" of manifest.json
+const PLUGIN_ID = "obsidian markdown dataview";
+
+const USAGE = `Usage: node cli.js <vault> [--check | --write] [options]
+
+Regenerate the waypoints and landmarks of a vault the same way as the plugin.
+
+  --check             Print a diff of every outdated note and exit with 1 if any (default)
+  --write             Write the regenerated waypoints and landmarks to the notes
+  --settings <path>   The settings of the plugin (default: .obsidian/plugins/${PLUGIN_ID}/data.json)
+  --language <code>   The language of generated text when it is set to follow Obsidian (default: en)
+  --force             Replace waypoints even if they were edited by hand
+  --no-dates          Leave out when files were created and modified, which git does not keep
+  --verbose           Log every step, like the "Debug Logging" setting
+  --help              Show this message`;
+
+interface CliOptions {
+	vault: string;
+	write: boolean;
+	settingsPath: string | null;
+	language: string;
+	force: boolean;
+	dates: boolean;
+	verbose: boolean;
+}
+
+/**
+ * Parse the arguments of the command.
+ * @returns The options, or null if the usage was requested
+ * @throws Error if an argument is unknown or missing its value
+ */
+function parseArgs(args: string[]): CliOptions | null {
+	const options: CliOptions = { vault: "", write: false, settingsPath: null, language: "en", force: false, dates: true, verbose: false };
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		const getValue = () => {
+			if (i + 1 >= args.length) {
+				throw new Error(`Option ${arg} requires a value`);
+			}
+			return args[++i];
+		};
+		switch (arg) {
+			case "--help":
+			case "-h":
+				return null;
+			case "--check":
+				options.write = false;
+				break;
+			case "--write":
+				options.write = true;
+				break;
+			case "--settings":
+				options.settingsPath = getValue();
+				break;
+			case "--language":
+				options.language = getValue();
+				break;
+			case "--force":
+				options.force = true;
+				break;
+			case "--no-dates":
+				options.dates = false;
+				break;
+			case "--verbose":
+				options.verbose = true;
+				break;
+			default:
+				if (arg.startsWith("-") || options.vault !== "") {
+					throw new Error(`Unknown argument "${arg}"`);
+				}
+				options.vault = arg;
+		}
+	}
+	if (options.vault === "") {
+		throw new Error("Missing the path of the vault");
+	}
+	return options;
+}
+
+/**
+ * Load the settings of the plugin, falling back to the defaults for settings that are not set
+ * (or for every setting if the vault has no settings file and none was given).
+ * @throws Error if the given settings file does not exist or the settings are not valid JSON
+ */
+async function loadSettings(options: CliOptions): Promise<WaypointSettings> {
+	const path = options.settingsPath ?? nodePath.join(options.vault, ".obsidian", "plugins", PLUGIN_ID, "data.json");
+	let data = {};
+	if (options.settingsPath !== null || fs.existsSync(path)) {
+		try {
+			data = JSON.parse(await fs.promises.readFile(path, "utf8"));
+		} catch (e) {
+			throw new Error(`Unable to read the settings in ${path}: ${e.message}`);
+		}
+	}
+	const settings: WaypointSettings = Object.assign({}, DEFAULT_SETTINGS, data);
+	settings.debugLogging = options.verbose;
+	if (settings.language === "auto") {
+		// Obsidian sets the language of moment.js to its own language, which is unknown outside of it
+		settings.language = options.language;
+	}
+	return settings;
+}
+
+/**
+ * Regenerate every waypoint and landmark in the vault, then print or write the changes.
+ * @returns The exit code: 0 if every note is up to date (or was updated), 1 otherwise
+ */
+async function run(options: CliOptions): Promise<number> {
+	const settings = await loadSettings(options);
+	const vault = await FileSystemVault.load(options.vault, options.dates);
+	const generator = new WaypointGenerator(vault, settings, moment);
+	await generator.buildPointIndex();
+	const paths = [...new Set([...generator.pointIndex.values()].map((entry) => entry.notePath))].sort();
+	let outdated = 0;
+	let conflicts = 0;
+	for (const path of paths) {
+		const file = vault.getNode(path);
+		if (!isFile(file)) {
+			continue;
+		}
+		const original = await vault.read(file);
+		let text = original;
+		for (const flagType of [WaypointType.Waypoint, WaypointType.Landmark]) {
+			if (!(await generator.containsPoint(text, flagType))) {
+				continue;
+			}
+			const result = await generator.updateBlocks(file, text, flagType, options.force);
+			if (result === null) {
+				continue;
+			}
+			for (const [block, reason] of result.conflicts) {
+				console.error(`${path}: The ${flagType}${block.name === "" ? "" : ` "${block.name}"`} was not updated as ${reason}`);
+				conflicts++;
+			}
+			text = result.text;
+		}
+		if (text === original) {
+			continue;
+		}
+		outdated++;
+		if (options.write) {
+			await vault.write(file, text);
+			console.log(`Updated ${path}`);
+		} else {
+			console.log(diffLines(path, original, text));
+		}
+	}
+	const total = `${paths.length} note${paths.length === 1 ? "" : "s"}`;
+	if (options.write) {
+		console.log(`Updated ${outdated} of ${total} with waypoints or landmarks`);
+	} else {
+		console.log(outdated === 0 ? `All ${total} with waypoints or landmarks are up to date` : `${outdated} of ${total} with waypoints or landmarks are outdated`);
+	}
+	if (conflicts > 0) {
+		const hint = options.force ? "" : ", use --force to replace those edited by hand";
+		console.error(`${conflicts} waypoint${conflicts === 1 ? " was" : "s were"} not updated to keep manual edits${hint}`);
+	}
+	return conflicts > 0 || (!options.write && outdated > 0) ? 1 : 0;
+}
+
+async function main(args: string[]): Promise<number> {
+	let options: CliOptions | null;
+	try {
+		options = parseArgs(args);
+	} catch (e) {
+		console.error(`Error: ${e.message}\n\n${USAGE}`);
+		return 2;
+	}
+	if (options === null) {
+		console.log(USAGE);
+		return 0;
+	}
+	try {
+		return await run(options);
+	} catch (e) {
+		console.error(`Error: ${e.message}`);
+		return 2;
+	}
+}
+
+main(process.argv.slice(2)).then((code) => {
+	process.exitCode = code;
+});
@@ -1,7 +1,16 @@
 import {
 	App,
+	CachedMetadata,
 	debounce,
+	Editor,
+	ItemView,
+	MarkdownPostProcessorContext,
+	MarkdownRenderChild,
+	MarkdownRenderer,
+	Modal,
 	normalizePath,
+	Notice,
+	moment,
 	Plugin,
 	PluginSettingTab,
 	Setting,
@@ -9,64 +18,64 @@ import {
 	TFile,
 	TFolder,
 	TextComponent,
-	ToggleComponent
+	ToggleComponent,
+	WorkspaceLeaf
 } from "obsidian";
+import { AFTER_UPDATE_EVENT, BEFORE_UPDATE_EVENT, PointInfo, WaypointApi, WaypointUpdatedEvent, WaypointUpdateEvent } from "./src/api";
+import { ExportFormat, ExportTable, getExportPath, renderExport } from "./src/export";
+import { Formatter, parseColumn, registerFormatter } from "./src/formatters";
+import { FrontmatterValue, setFrontmatterValue } from "./src/frontmatter";
+import { COMPUTED_COLUMNS, PointReport, WaypointBlock, WaypointGenerator } from "./src/generator";
+import { getLayoutNames } from "./src/layouts";
+import { formatErrorComment, getLocaleCodes } from "./src/locales";
+import { UpdateQueue } from "./src/queue";
+import { DEFAULT_SETTINGS, FolderNoteType, RenderMode, WaypointSettings, WaypointType } from "./src/settings";
+import { parseSortOrder, SortGroup } from "./src/sort";
+import { FileMetadata, Vault, VaultFile } from "./src/vault";
 
-enum FolderNoteType {
-	InsideFolder = "INSIDE_FOLDER",
-	// OutsideFolder = "OUTSIDE_FOLDER",
-}
-
-enum WaypointType {
-	Waypoint = "waypoint",
-	Landmark = "landmark",
-}
-
-interface WaypointSettings {
-	waypointFlag: string;
-	landmarkFlag: string;
-	stopScanAtFolderNotes: boolean;
-	showFolderNotes: boolean;
-	showNonMarkdownFiles: boolean;
-	debugLogging: boolean;
-	useWikiLinks: boolean;
-	useFrontMatterTitle: boolean;
-	showEnclosingNote: boolean;
-	folderNoteType: string;
-	folderNoteName: string;
-	ignorePaths: string[];
-	useSpaces: boolean;
-	numSpaces: number;
-}
-
-const DEFAULT_SETTINGS: WaypointSettings = {
-	waypointFlag: "%% Waypoint %%",
-	landmarkFlag: "%% Landmark %%",
-	stopScanAtFolderNotes: false,
-	showFolderNotes: false,
-	showNonMarkdownFiles: false,
-	debugLogging: true,
-	useWikiLinks: true,
-	useFrontMatterTitle: false,
-	showEnclosingNote: false,
-	folderNoteType: FolderNoteType.InsideFolder,
-	folderNoteName: "",
-	ignorePaths: ["_attachments"],
-	useSpaces: false,
-	numSpaces: 2
+const LANGUAGE_NAMES: Record<string, string> = {
+	en: "English",
+	ko: "한국어",
+	de: "Deutsch"
 };
 
 export default class Waypoint extends Plugin {
-	static readonly BEGIN_WAYPOINT = "%% Begin Waypoint %%";
-	static readonly END_WAYPOINT = "%% End Waypoint %%";
-	static readonly BEGIN_LANDMARK = "%% Begin Landmark %%";
-	static readonly END_LANDMARK = "%% End Landmark %%";
+	static readonly LIVE_WAYPOINT_LANGUAGE = "waypoint";
 
 	foldersWithChanges = new Set<TFolder>();
+	// The metadata of each note that is shown in waypoints, to ignore changes that do not affect them
+	metadataSignatures = new Map<string, { signature: string; links: string[] }>();
+	filesWithChangedMetadata = new Set<TFile>();
+	statusBarItem: HTMLElement;
+	// Folder notes whose edited blocks should be overwritten by their next update
+	overwriteRequests = new Set<string>();
+	// Folder notes whose edited blocks should be kept without asking again until Obsidian restarts
+	keptEdits = new Set<string>();
+	// The message of the edit conflict notice of each folder note, which is detached from the page once the notice is dismissed
+	conflictNotices = new Map<string, HTMLElement>();
+	// When the waypoints of each folder note were last regenerated since Obsidian started, by path
+	lastUpdates = new Map<string, number>();
+	// Set after removing every waypoint so that the flags left behind are not generated again until they are rebuilt
+	automaticUpdatesPaused = false;
+	// Every write to a folder note goes through this queue so that overlapping updates cannot lose edits
+	updateQueue = new UpdateQueue(
+		(completed, total) => this.showUpdateProgress(completed, total),
+		(key, error) => {
+			console.error(`Error: Failed to update ${key}`, error);
+			new Notice(`Waypoint: Failed to update ${key}: ${error.message}`);
+		}
+	);
 	settings: WaypointSettings;
+	// Generates the content of waypoints, with its index of points built once the layout is ready
+	generator: WaypointGenerator;
+	// The API for other plugins and scripts
+	api: WaypointApi;
 
 	async onload() {
 		await this.loadSettings();
+		this.generator = new WaypointGenerator(new ObsidianVault(this.app), this.settings, moment);
+		this.api = new WaypointPluginApi(this);
+		this.statusBarItem = this.addStatusBarItem();
 		this.addCommand({
 			id: "go_to_parent_waypoint",
 			name: "Go to parent Waypoint",
@@ -76,11 +85,117 @@ export default class Waypoint extends Plugin {
 				this.app.workspace.activeLeaf.openFile(parentPoint);
 			}
 		});
+		this.addCommand({
+			id: "freeze_live_waypoints",
+			name: "Freeze live waypoints into static text",
+			checkCallback: (checking: boolean) => {
+				const curFile = this.app.workspace.getActiveFile();
+				if (curFile === null || !this.generator.isFolderNote(curFile)) {
+					return false;
+				}
+				if (!checking) {
+					this.freezeLiveWaypoints(curFile);
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: "rebuild_all_waypoints",
+			name: "Rebuild all waypoints and landmarks in the vault",
+			callback: () => this.rebuildAllPoints()
+		});
+		this.addCommand({
+			id: "rebuild_current_waypoints",
+			name: "Rebuild waypoints in the current note",
+			checkCallback: (checking: boolean) => {
+				const curFile = this.app.workspace.getActiveFile();
+				if (curFile === null || !this.generator.isFolderNote(curFile)) {
+					return false;
+				}
+				if (!checking) {
+					this.queueUpdate(curFile).then(() => new Notice("Rebuilt the waypoints in " + curFile.basename));
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: "remove_all_waypoints",
+			name: "Remove all generated waypoints and landmarks, leaving their flags",
+			callback: () => this.removeAllPoints()
+		});
+		this.addCommand({
+			id: "convert_waypoint_to_text",
+			name: "Convert the waypoint at the cursor to plain text",
+			editorCheckCallback: (checking: boolean, editor: Editor) => {
+				const curFile = this.app.workspace.getActiveFile();
+				if (curFile === null || !this.generator.isFolderNote(curFile)) {
+					return false;
+				}
+				if (!checking) {
+					this.convertPointToText(curFile, editor.getCursor().line);
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: "open_dashboard",
+			name: "Open the dashboard of every waypoint and landmark",
+			callback: () => this.openDashboard()
+		});
+		for (const format of Object.values(ExportFormat)) {
+			this.addCommand({
+				id: "export_" + format,
+				name: `Export the waypoints of the current note as ${format.toUpperCase()}`,
+				checkCallback: (checking: boolean) => {
+					const curFile = this.app.workspace.getActiveFile();
+					if (curFile === null || !this.generator.isFolderNote(curFile)) {
+						return false;
+					}
+					if (!checking) {
+						this.exportCurrentNote(curFile, format);
+					}
+					return true;
+				}
+			});
+		}
+		this.addCommand({
+			id: "create_note",
+			name: "Create new note in the current folder",
+			checkCallback: (checking: boolean) => this.runCreateCommand(checking, false)
+		});
+		this.addCommand({
+			id: "create_folder",
+			name: "Create new folder with a folder note in the current folder",
+			checkCallback: (checking: boolean) => this.runCreateCommand(checking, true)
+		});
+		// Handles the "new file" and "new folder" links in the header of each waypoint
+		this.registerObsidianProtocolHandler(WaypointGenerator.PROTOCOL_ACTION, (params) => {
+			const folder = this.app.vault.getAbstractFileByPath(params.folder ?? "");
+			if (folder instanceof TFolder) {
+				this.promptToCreate(folder, params.type === "folder");
+			}
+		});
+		this.registerView(WaypointDashboardView.VIEW_TYPE, (leaf) => new WaypointDashboardView(leaf, this));
+		this.registerMarkdownPostProcessor((el, ctx) => this.makeWaypointTablesEditable(el, ctx));
+		this.registerMarkdownCodeBlockProcessor(Waypoint.LIVE_WAYPOINT_LANGUAGE, (source, el, ctx) => {
+			ctx.addChild(new LiveWaypointRenderer(this, el, source, ctx.sourcePath));
+		});
 		this.app.workspace.onLayoutReady(async () => {
+			await this.generator.buildPointIndex();
 			// Register events after layout is built to avoid initial wave of 'create' events
 			this.registerEvent(
-				this.app.vault.on("create", (file) => {
+				this.app.vault.on("create", async (file) => {
 					this.log("create " + file.name);
+					// Folder notes may already contain a flag, e.g. when they are synced or created from a template
+					if (file instanceof TFolder) {
+						await this.generator.indexFolderTree(file);
+					} else if (file instanceof TFile && this.generator.isFolderNote(file)) {
+						await this.generator.indexFolderNote(file);
+						const folder = this.generator.getFolderOfNote(file);
+						if (!this.automaticUpdatesPaused && folder !== null && await this.generator.getPointOf(folder) !== null) {
+							this.queueUpdate(file);
+						}
+					}
 					this.foldersWithChanges.add(file.parent);
 					this.scheduleUpdate();
 				})
@@ -88,6 +203,7 @@ export default class Waypoint extends Plugin {
 			this.registerEvent(
 				this.app.vault.on("delete", (file) => {
 					this.log("delete " + file.name);
+					this.generator.removeFromPointIndex(file.path);
 					const parentFolder = this.getParentFolder(file.path);
 					// // alert("delete1")
 					if (parentFolder !== null) {
@@ -98,8 +214,21 @@ export default class Waypoint extends Plugin {
 				})
 			);
 			this.registerEvent(
-				this.app.vault.on("rename", (file, oldPath) => {
+				this.app.vault.on("rename", async (file, oldPath) => {
 					this.log("rename " + file.name);
+					this.generator.removeFromPointIndex(oldPath);
+					if (file instanceof TFolder) {
+						await this.generator.indexFolderTree(file);
+					} else if (file instanceof TFile && this.generator.isFolderNote(file)) {
+						await this.generator.indexFolderNote(file);
+					}
+					if (file instanceof TFolder && this.settings.renameFolderNotes) {
+						this.renameFolderNote(file, oldPath);
+					}
+					if (!this.automaticUpdatesPaused && file instanceof TFile && this.generator.isFolderNote(file)) {
+						// The folder note may now describe a different folder
+						this.queueUpdate(file);
+					}
 					// // alert("rename1")
 					this.foldersWithChanges.add(file.parent);
 					const parentFolder = this.getParentFolder(oldPath);
@@ -111,6 +240,9 @@ export default class Waypoint extends Plugin {
 				})
 			);
 			this.registerEvent(this.app.vault.on("modify", this.detectFlags));
+			this.registerEvent(this.app.metadataCache.on("changed", this.detectMetadataChange));
+			// Links are only resolved once every changed file has been indexed
+			this.registerEvent(this.app.metadataCache.on("resolved", this.updateChangedMetadata));
 		});
 
 		// This adds a settings tab so the user can configure various aspects of the plugin
@@ -118,13 +250,90 @@ export default class Waypoint extends Plugin {
 	}
 
 	onunload() {
+		this.app.workspace.detachLeavesOfType(WaypointDashboardView.VIEW_TYPE);
 	}
 
 	detectFlags = async (file: TFile) => {
+		if (this.generator.isFolderNote(file)) {
+			await this.generator.indexFolderNote(file);
+		}
+		if (this.automaticUpdatesPaused) {
+			return;
+		}
 		this.detectFlag(file, WaypointType.Waypoint);
 		this.detectFlag(file, WaypointType.Landmark);
 	};
 
+	/**
+	 * Check whether the metadata of the given note changed in a way that affects the waypoints listing it,
+	 * e.g. its frontmatter or its tasks. Notes it started or stopped linking to are checked too, as their backlinks changed.
+	 * The waypoints are updated once the changes have been resolved.
+	 */
+	detectMetadataChange = (file: TFile, data: string, cache: CachedMetadata) => {
+		const previous = this.metadataSignatures.get(file.path);
+		const current = this.getMetadataSignature(file, cache);
+		this.metadataSignatures.set(file.path, current);
+		if (previous?.signature === current.signature) {
+			return;
+		}
+		this.log("Metadata changed on " + file.name);
+		this.filesWithChangedMetadata.add(file);
+		const previousLinks = previous?.links ?? [];
+		for (const path of [...previousLinks, ...current.links]) {
+			if (previousLinks.includes(path) !== current.links.includes(path)) {
+				const target = this.app.vault.getAbstractFileByPath(path);
+				if (target instanceof TFile) {
+					this.filesWithChangedMetadata.add(target);
+				}
+			}
+		}
+	};
+
+	/**
+	 * Get a signature of the metadata of a note that is shown in waypoints: its frontmatter, and for notes
+	 * other than folder notes (whose waypoints change their headings and links) the computed columns read from the cache.
+	 */
+	getMetadataSignature(file: TFile, cache: CachedMetadata): { signature: string; links: string[] } {
+		if (this.generator.isFolderNote(file)) {
+			return { signature: JSON.stringify(cache.frontmatter ?? null), links: [] };
+		}
+		const links = [...new Set((cache.links ?? [])
+			.map((link) => this.app.metadataCache.getFirstLinkpathDest(link.link.split("#")[0], file.path)?.path)
+			.filter((path) => path !== undefined))];
+		const tasks = this.generator.getTaskCounts(file);
+		return {
+			signature: JSON.stringify([cache.frontmatter ?? null, cache.headings?.length ?? 0, tasks.done, tasks.total, links]),
+			links
+		};
+	}
+
+	/**
+	 * Schedule an update of the waypoints listing the notes whose metadata changed.
+	 */
+	updateChangedMetadata = () => {
+		if (this.filesWithChangedMetadata.size === 0) {
+			return;
+		}
+		this.filesWithChangedMetadata.forEach((file) => {
+			// Folder notes are listed by the waypoint of the folder above the one they describe
+			const folder = this.generator.isFolderNote(file) ? this.generator.getFolderOfNote(file)?.parent as TFolder : file.parent;
+			if (folder) {
+				this.foldersWithChanges.add(folder);
+			}
+		});
+		this.filesWithChangedMetadata.clear();
+		this.scheduleUpdate();
+	};
+
+	/**
+	 * Rebuild the index after debouncing, e.g. when the folder note style or flags change.
+	 */
+	scheduleIndexRebuild = debounce(() => {
+		if (this.generator.pointIndexReady) {
+			this.generator.buildPointIndex();
+		}
+	}, 1000, true);
+
 	/**
 	 * Scan the given file for the waypoint flag. If found, update the waypoint.
 	 * @param file The file to scan
@@ -132,23 +341,23 @@ export default class Waypoint extends Plugin {
 	detectFlag = async (file: TFile, flagType: WaypointType) => {
 		this.log("Modification on " + file.name);
 		this.log("Scanning for " + flagType + " flags...");
-		const waypointFlag = await this.getWaypointFlag(flagType);
+		const flagRegex = this.generator.getFlagRegex(await this.generator.getWaypointFlag(flagType));
 		const text = await this.app.vault.cachedRead(file);
 		const lines: string[] = text.split("\n");
 		for (let i = 0; i < lines.length; i++) {
-			if (lines[i].trim().includes(waypointFlag)) {
-				if (this.isFolderNote(file)) {
+			if (flagRegex.test(lines[i].trim())) {
+				if (this.generator.isFolderNote(file)) {
 					this.log("Found " + flagType + " flag in folder note!");
-					await this.updateWaypoint(file, flagType);
+					await this.queueUpdate(file);
 					await this.updateParentPoint(file.parent, this.settings.folderNoteType === FolderNoteType.OutsideFolder);
 					return;
 				} else if (file.parent.isRoot()) {
 					this.log("Found " + flagType + " flag in root folder.");
-					this.printError(file, `%% Error: Cannot create a ` + flagType + ` in the root folder of your vault. For more information, check the instructions [here](https://github.com/IdreesInc/Waypoint) %%`, flagType);
+					this.printError(file, formatErrorComment(this.generator.getLocale(), this.generator.getLocale().errors.rootFolder(flagType)), flagType);
 					return;
 				} else {
 					this.log("Found " + flagType + " flag in invalid note.");
-					this.printError(file, `%% Error: Cannot create a ` + flagType + ` in a note that's not the folder note. For more information, check the instructions [here](https://github.com/IdreesInc/Waypoint) %%`, flagType);
+					this.printError(file, formatErrorComment(this.generator.getLocale(), this.generator.getLocale().errors.notFolderNote(flagType)), flagType);
 					return;
 				}
 			}
@@ -156,430 +365,646 @@ export default class Waypoint extends Plugin {
 		this.log("No " + flagType + " flags found.");
 	};
 
-	isFolderNote(file: TFile): boolean {
-		if (this.settings.folderNoteType === FolderNoteType.InsideFolder) {
-			if (this.settings.folderNoteName == "") {
-				return file.basename == file.parent.name;
-			} else {
-				return file.basename == this.settings.folderNoteName;
-			}
+	/**
+	 * Queue an update of every waypoint and landmark in the given folder note.
+	 * Updates of a note that is already waiting to be updated are coalesced into one.
+	 * @returns A promise resolved once the note has been updated
+	 */
+	queueUpdate(file: TFile): Promise<void> {
+		return this.updateQueue.enqueue(file.path, () => this.updatePointsIn(file));
+	}
+
+	/**
+	 * Get every folder note containing a waypoint or landmark.
+	 */
+	async getPointNotes(): Promise<TFile[]> {
+		if (!this.generator.pointIndexReady) {
+			await this.generator.buildPointIndex();
 		}
-		if (file.parent) {
-			return this.app.vault.getAbstractFileByPath(this.getCleanParentPath(file) + file.basename) instanceof TFolder;
+		const paths = new Set([...this.generator.pointIndex.values()].map((entry) => entry.notePath));
+		return [...paths]
+			.map((path) => this.app.vault.getAbstractFileByPath(path))
+			.filter((file): file is TFile => file instanceof TFile);
+	}
+
+	/**
+	 * Show the dashboard in the right sidebar, opening it if it is not open yet.
+	 */
+	async openDashboard() {
+		let leaf = this.app.workspace.getLeavesOfType(WaypointDashboardView.VIEW_TYPE)[0];
+		if (leaf === undefined) {
+			leaf = this.app.workspace.getRightLeaf(false);
+			await leaf.setViewState({ type: WaypointDashboardView.VIEW_TYPE, active: true });
 		}
-		return false;
+		this.app.workspace.revealLeaf(leaf);
 	}
 
-	getCleanParentPath(node: TAbstractFile): string {
-		if (node.parent instanceof TFolder && node.parent.isRoot()) {
-			return "";
+	/**
+	 * Refresh every open dashboard once the current burst of changes is over.
+	 * @param file The note to check again, or undefined to check the whole vault
+	 */
+	refreshDashboards(file?: TFile) {
+		this.app.workspace.getLeavesOfType(WaypointDashboardView.VIEW_TYPE).forEach((leaf) => {
+			if (leaf.view instanceof WaypointDashboardView) {
+				leaf.view.queueRefresh(file?.path);
+			}
+		});
+	}
+
+	/**
+	 * Regenerate every waypoint and landmark in the vault, resuming automatic updates if they were paused.
+	 */
+	async rebuildAllPoints() {
+		this.automaticUpdatesPaused = false;
+		const files = await this.getPointNotes();
+		await Promise.all(files.map((file) => this.queueUpdate(file)));
+		new Notice(`Rebuilt the waypoints and landmarks in ${files.length} note${files.length === 1 ? "" : "s"}`);
+	}
+
+	/**
+	 * Replace every generated waypoint and landmark in the vault with its flag, e.g. before exporting the vault or
+	 * uninstalling the plugin. Automatic updates are paused until everything is rebuilt so the flags are not generated again.
+	 */
+	async removeAllPoints() {
+		this.automaticUpdatesPaused = true;
+		let count = 0;
+		for (const file of await this.getPointNotes()) {
+			await this.updateQueue.enqueue("remove:" + file.path, async () => {
+				const replaced = await this.replaceBlocks(file, (block, lines, flagType) => {
+					const flag = flagType === WaypointType.Landmark ? this.settings.landmarkFlag : this.settings.waypointFlag;
+					return [(block.isCallout ? ">" : "") + this.generator.getMarker(flag, block.name, block.rawOptions)];
+				});
+				if (replaced > 0) {
+					count++;
+				}
+			});
 		}
-		return node.parent.path + "/";
+		new Notice(`Removed the waypoints and landmarks from ${count} note${count === 1 ? "" : "s"}. `
+			+ "Automatic updates are paused until you rebuild all waypoints or restart Obsidian.");
 	}
 
-	async printError(file: TFile, error: string, flagType: WaypointType) {
-		this.log("Creating " + flagType + " error in " + file.path);
+	/**
+	 * Turn the waypoint or landmark at the given line of a folder note into plain Markdown without its markers,
+	 * so that it is no longer updated.
+	 */
+	async convertPointToText(file: TFile, line: number) {
+		let replaced = 0;
+		await this.updateQueue.enqueue("convert:" + file.path, async () => {
+			replaced = await this.replaceBlocks(file, (block, lines) => {
+				if (line < block.start || line > block.end) {
+					return null;
+				}
+				return lines.slice(block.start + 1, block.end);
+			});
+		});
+		new Notice(replaced > 0
+			? `Converted the waypoint in ${file.basename} to plain text`
+			: "The cursor is not within a generated waypoint or landmark");
+	}
+
+	/**
+	 * Replace the generated waypoints and landmarks of a folder note, from their begin marker to their end marker.
+	 * Flags and blocks missing their end marker are left as they are.
+	 * @param file The folder note
+	 * @param replace Get the lines replacing a block, or null to leave it as it is
+	 * @returns The number of blocks that were replaced
+	 */
+	async replaceBlocks(file: TFile, replace: (block: WaypointBlock, lines: string[], flagType: WaypointType) => string[] | null): Promise<number> {
 		const text = await this.app.vault.read(file);
-		const lines: string[] = text.split("\n");
-		let waypointIndex = -1;
-		const pointFlag = await this.getWaypointFlag(flagType);
-		for (let i = 0; i < lines.length; i++) {
-			const trimmed = lines[i].trim();
-			if (trimmed.includes(pointFlag)) {
-				waypointIndex = i;
+		const lines = text.split("\n");
+		let count = 0;
+		for (const flagType of [WaypointType.Waypoint, WaypointType.Landmark]) {
+			const blocks = await this.generator.locateWaypointBlocks(lines, flagType);
+			for (const block of blocks.reverse()) {
+				if (block.initial || block.end === -1) {
+					continue;
+				}
+				const replacement = replace(block, lines, flagType);
+				if (replacement !== null) {
+					lines.splice(block.start, block.end - block.start + 1, ...replacement);
+					count++;
+				}
 			}
 		}
-		if (waypointIndex === -1) {
-			console.error("Error: No " + flagType + " flag found while trying to print error.");
+		if (count > 0) {
+			await this.app.vault.modify(file, lines.join("\n"));
+		}
+		return count;
+	}
+
+	/**
+	 * Export the waypoints and landmarks of the given folder note and show where they were exported to.
+	 */
+	async exportCurrentNote(file: TFile, format: ExportFormat) {
+		const { paths, errors } = await this.exportPoints(file, format);
+		if (paths.length === 0 && errors.length === 0) {
+			new Notice("No waypoints found in " + file.basename);
 			return;
 		}
-		lines.splice(waypointIndex, 1, error);
-		await this.app.vault.modify(file, lines.join("\n"));
+		const messages = paths.length > 0 ? [`Exported to ${paths.join(", ")}`] : [];
+		new Notice([...messages, ...errors.map((error) => "Unable to export the " + error + ".")].join(" "));
+	}
+
+	/**
+	 * Export every waypoint and landmark of a folder note in the given format. Exports whose content did not change
+	 * are not written again, so that exporting on every update does not cause another update.
+	 * @returns The paths of the exported files, along with the waypoints that could not be exported and why
+	 */
+	async exportPoints(file: TFile, format: ExportFormat): Promise<{ paths: string[]; errors: string[] }> {
+		const lines = (await this.app.vault.cachedRead(file)).split("\n");
+		const paths: string[] = [];
+		const errors: string[] = [];
+		for (const flagType of [WaypointType.Waypoint, WaypointType.Landmark]) {
+			for (const block of await this.generator.locateWaypointBlocks(lines, flagType)) {
+				const path = normalizePath(getExportPath(file.path, block.name, format, this.settings.exportFolder));
+				try {
+					const table = await this.generator.buildExportTable(file, block);
+					await this.writeExport(path, renderExport(table, format));
+					paths.push(path);
+				} catch (e) {
+					errors.push(`${block.name === "" ? flagType : `${flagType} "${block.name}"`}: ${e.message}`);
+				}
+			}
+		}
+		return { paths, errors };
 	}
 
 	/**
-	 * Get the string indices of the begin and end points for the given waypoint.
+	 * Write an exported file, creating its folders if needed. The file is left as it is if its content did not change.
 	 */
-	async getWaypointBounds(flag: string): Promise<[string, string] | [null, null]> {
-		if (flag === WaypointType.Waypoint) {
-			return [Waypoint.BEGIN_WAYPOINT, Waypoint.END_WAYPOINT];
+	async writeExport(path: string, content: string) {
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			// The byte order mark of CSV files may be dropped when they are read
+			if ((await this.app.vault.read(existing)).replace(/^\uFEFF/, "") !== content.replace(/^\uFEFF/, "")) {
+				await this.app.vault.modify(existing, content);
+			}
+			return;
 		}
-		if (flag === WaypointType.Landmark) {
-			return [Waypoint.BEGIN_LANDMARK, Waypoint.END_LANDMARK];
+		const parts = path.split("/");
+		for (let i = 1; i < parts.length; i++) {
+			const folder = parts.slice(0, i).join("/");
+			if (this.app.vault.getAbstractFileByPath(folder) === null) {
+				await this.app.vault.createFolder(folder);
+			}
 		}
-		return [null, null];
+		await this.app.vault.create(path, content);
 	}
 
 	/**
-	 * Get the indicator for the given waypoint type.
+	 * Run a command creating a note or folder in the folder of the active note, or in the folder it describes if it is a folder note.
 	 */
-	async getWaypointFlag(type: WaypointType): Promise<string> | null {
-		if (type === WaypointType.Waypoint) {
-			return this.settings.waypointFlag;
-		} else if (type === WaypointType.Landmark) {
-			return this.settings.landmarkFlag;
+	runCreateCommand(checking: boolean, isFolder: boolean): boolean {
+		const curFile = this.app.workspace.getActiveFile();
+		if (curFile === null) {
+			return false;
 		}
-		console.error("Error: Invalid waypoint type: " + type);
-		return null;
+		const folder = (this.generator.isFolderNote(curFile) ? this.generator.getFolderOfNote(curFile) as TFolder : null) ?? curFile.parent;
+		if (!checking) {
+			this.promptToCreate(folder, isFolder);
+		}
+		return true;
 	}
 
 	/**
-	 * Given a file with a waypoint flag, generate a file tree representation and update the waypoint text.
-	 * @param file The file to update
+	 * Ask for the name of a new note (or folder) and then create it in the given folder and open it.
 	 */
-	async updateWaypoint(file: TFile, flagType: WaypointType) {
-		// alert("updateWaypoint")
+	promptToCreate(folder: TFolder, isFolder: boolean) {
+		new NamePromptModal(this.app, isFolder ? "New folder" : "New note", async (name) => {
+			try {
+				const file = isFolder ? await this.createFolderWithNote(folder, name) : await this.createNote(folder, name);
+				await this.app.workspace.activeLeaf.openFile(file);
+			} catch (e) {
+				new Notice(`Unable to create ${name}: ${e.message}`);
+			}
+		}).open();
+	}
 
-		this.log("Updating " + flagType + " in " + file.path);
-		let fileTree;
-		if (this.settings.folderNoteType === FolderNoteType.InsideFolder) {
-			fileTree = await this.getFileTreeRepresentation(file.parent, file.parent, 0, true);
-		} else {
-			const folder = this.app.vault.getAbstractFileByPath(this.getCleanParentPath(file) + file.basename);
-			if (folder instanceof TFolder) {
-				fileTree = await this.getFileTreeRepresentation(file.parent, folder, 0, true);
+	/**
+	 * Create a note in the given folder from the template of the folder, with a frontmatter property for each of its "keys".
+	 * @throws Error if the name is invalid or a note with the same name already exists
+	 */
+	async createNote(folder: TFolder, name: string): Promise<TFile> {
+		const path = this.getNewPath(folder, name) + ".md";
+		const template = this.getTemplateOf(folder);
+		const content = this.prefillFrontmatter(template !== null ? await this.app.vault.read(template) : "", folder, name);
+		return this.app.vault.create(path, content);
+	}
+
+	/**
+	 * Create a folder in the given folder along with its folder note, which starts with a waypoint flag.
+	 * @returns The folder note of the new folder
+	 * @throws Error if the name is invalid or a folder with the same name already exists
+	 */
+	async createFolderWithNote(parent: TFolder, name: string): Promise<TFile> {
+		const path = this.getNewPath(parent, name);
+		const notePath = this.generator.getFolderNotePath(path);
+		if (this.app.vault.getAbstractFileByPath(notePath) !== null) {
+			throw new Error(`${notePath} already exists`);
+		}
+		await this.app.vault.createFolder(path);
+		const folderNote = await this.app.vault.create(notePath, this.prefillFrontmatter(this.settings.waypointFlag + "\n", parent, name));
+		await this.generator.indexFolderNote(folderNote);
+		this.queueUpdate(folderNote);
+		return folderNote;
+	}
+
+	/**
+	 * Get the path of a new note or folder in the given folder.
+	 * @throws Error if the name is empty, contains characters that are not allowed in paths, or is already taken
+	 */
+	getNewPath(folder: TFolder, name: string): string {
+		if (name.trim() === "" || /[\\/:]/.test(name)) {
+			throw new Error("Names cannot be empty or contain any of \\ / :");
+		}
+		const path = normalizePath(folder.isRoot() ? name.trim() : `${folder.path}/${name.trim()}`);
+		if (this.app.vault.getAbstractFileByPath(path) !== null || this.app.vault.getAbstractFileByPath(path + ".md") !== null) {
+			throw new Error(`${path} already exists`);
+		}
+		return path;
+	}
+
+	/**
+	 * Get the template for new notes in the given folder: the "template" property of its folder note (a link or path)
+	 * if set, otherwise the template from the settings.
+	 * @returns The template note, or null if there is none
+	 */
+	getTemplateOf(folder: TFolder): TFile | null {
+		const folderNote = this.generator.getFolderNoteOf(folder) as TFile | null;
+		const property = folderNote !== null ? this.app.metadataCache.getFileCache(folderNote)?.frontmatter?.template : undefined;
+		const link = typeof property === "string" && property.trim() !== "" ? property : this.settings.templatePath;
+		if (link.trim() === "") {
+			return null;
+		}
+		const target = link.trim().replace(/^\[\[(.*?)(\|.*)?\]\]$/, "$1");
+		return this.app.metadataCache.getFirstLinkpathDest(target, folderNote?.path ?? "");
+	}
+
+	/**
+	 * Fill in a template for a new note in the given folder: replace "{{title}}" and "{{date}}", and add an empty
+	 * frontmatter property for each of the "keys" of the folder that the template does not set.
+	 */
+	prefillFrontmatter(template: string, folder: TFolder, title: string): string {
+		const text = template
+			.replace(/{{\s*title\s*}}/gi, title)
+			.replace(/{{\s*date\s*}}/gi, moment().format("YYYY-MM-DD"));
+		const folderNote = this.generator.getFolderNoteOf(folder) as TFile | null;
+		const keys = folderNote !== null ? this.app.metadataCache.getFileCache(folderNote)?.frontmatter?.keys : undefined;
+		const match = text.match(/^---\n([\s\S]*?)\n?---(\n|$)/);
+		const yaml = match ? match[1].split("\n").filter((line) => line.trim() !== "") : [];
+		const body = match ? text.substring(match[0].length) : text;
+		const existing = yaml.map((line) => line.match(/^([^\s:#][^:]*):/)?.[1].trim()).filter(Boolean);
+		if (Array.isArray(keys)) {
+			for (const key of keys.map((spec) => parseColumn(String(spec)).key)) {
+				if (!existing.includes(key) && !COMPUTED_COLUMNS.includes(key.toLowerCase())) {
+					yaml.push(`${key}:`);
+				}
 			}
 		}
-		const [beginWaypoint, endWaypoint] = await this.getWaypointBounds(flagType);
-		let waypoint = `${beginWaypoint}\n${fileTree}\n\n${endWaypoint}`;
-		if (beginWaypoint === null || endWaypoint === null) {
-			console.error("Error: Waypoint bounds not found, unable to continue.");
+		return yaml.length > 0 ? `---\n${yaml.join("\n")}\n---\n${body}` : body;
+	}
+
+	/**
+	 * Make the tables of generated waypoints and landmarks in reading view editable.
+	 */
+	async makeWaypointTablesEditable(el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+		const tables = el.querySelectorAll("table");
+		const section = ctx.getSectionInfo(el);
+		if (tables.length === 0 || section === null) {
 			return;
 		}
-		const waypointFlag = await this.getWaypointFlag(flagType);
-		const text = await this.app.vault.read(file);
-		const lines: string[] = text.split("\n");
-		let waypointStart = -1;
-		let waypointEnd = -1;
-		let isCallout;
-		// Whether this is the first time we are creating the waypoint
-		let initialWaypoint = false;
-		for (let i = 0; i < lines.length; i++) {
-			const trimmed = lines[i].trim();
-			if (waypointStart === -1 && (trimmed.includes(waypointFlag) || trimmed.includes(beginWaypoint))) {
-				isCallout = trimmed.startsWith(">");
-				initialWaypoint = trimmed.includes(waypointFlag);
-				waypointStart = i;
-				continue;
-			}
-			if (waypointStart !== -1 && trimmed === endWaypoint) {
-				waypointEnd = i;
-				break;
-			}
+		const lines = section.text.split("\n");
+		const blocks = [
+			...await this.generator.locateWaypointBlocks(lines, WaypointType.Waypoint),
+			...await this.generator.locateWaypointBlocks(lines, WaypointType.Landmark)
+		];
+		if (!blocks.some((block) => block.end !== -1 && block.start <= section.lineEnd && block.end >= section.lineStart)) {
+			return;
 		}
-		if (waypointStart === -1) {
-			console.error("Error: No " + flagType + " found while trying to update " + file.path);
+		tables.forEach((table) => this.makeTableEditable(table, ctx.sourcePath));
+	}
+
+	/**
+	 * Let the frontmatter columns of a waypoint table be edited by clicking their cells. Each row is matched to its note
+	 * by the link in its title cell; computed columns, folders and rows without a title are left as they are.
+	 */
+	makeTableEditable(table: HTMLTableElement, sourcePath: string) {
+		// The TITLE and DATE headers are shown in the language of the generated text
+		const locale = this.generator.getLocale();
+		const columns = Array.from(table.querySelectorAll("thead th")).map((th) => {
+			const header = th.textContent.trim();
+			if (header === locale.headers.title) {
+				return "TITLE";
+			}
+			return header === locale.headers.date ? "DATE" : header;
+		});
+		const titleIndex = columns.findIndex((column) => column.toLowerCase() === "title");
+		if (titleIndex === -1) {
 			return;
 		}
-		this.log(flagType + " found at " + waypointStart + " to " + waypointEnd);
-		if (isCallout) {
-			if (initialWaypoint) {
-				// Add callout block prefix to the waypoint
-				const prefix = flagType === WaypointType.Landmark ? "[!landmark]\n" : "[!waypoint]\n";
-				waypoint = prefix + waypoint;
+		table.querySelectorAll("tbody tr").forEach((tr) => {
+			const cells = Array.from(tr.querySelectorAll("td"));
+			const href = cells[titleIndex]?.querySelector("a.internal-link")?.getAttribute("data-href");
+			const file = href ? this.app.metadataCache.getFirstLinkpathDest(href, sourcePath) : null;
+			if (file === null || this.generator.isFolderNote(file)) {
+				return;
 			}
-			// Prefix each line with ">" to make it a callout
-			const waypointLines = waypoint.split("\n");
-			const updatedLines = waypointLines.map((line) => `>${line}`);
-			waypoint = updatedLines.join("\n");
+			cells.forEach((cell, i) => {
+				const key = columns[i];
+				if (key === undefined || i === titleIndex || COMPUTED_COLUMNS.includes(key.toLowerCase())) {
+					return;
+				}
+				cell.style.cursor = "pointer";
+				cell.setAttribute("aria-label", "Click to edit");
+				cell.addEventListener("click", (evt: MouseEvent) => {
+					if ((evt.target as HTMLElement).closest("a, input") === null) {
+						this.editCell(cell, file, key);
+					}
+				});
+			});
+		});
+	}
+
+	/**
+	 * Replace a table cell with an input for its frontmatter property: a date picker for the DATE column, a checkbox
+	 * for true/false values and a text field for everything else. Lists are edited as comma-separated text.
+	 */
+	editCell(cell: HTMLTableCellElement, file: TFile, key: string) {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const isDate = key.toLowerCase() === "date";
+		// The DATE column shows the first of these properties that is set
+		const property = isDate ? ["DATE", "Date", "date"].find((k) => frontmatter?.[k] !== undefined) ?? "date" : key;
+		const current = frontmatter?.[property];
+		if (typeof current === "boolean") {
+			this.writeFrontmatterValue(file, property, !current);
+			return;
 		}
-		lines.splice(waypointStart, waypointEnd !== -1 ? waypointEnd - waypointStart + 1 : 1, waypoint);
-		await this.app.vault.modify(file, lines.join("\n"));
+		const original = Array.from(cell.childNodes);
+		let initial: string;
+		if (isDate) {
+			initial = moment(this.generator.getDateValue(file)).format("YYYY-MM-DD");
+		} else {
+			initial = Array.isArray(current) ? current.join(", ") : String(current ?? "");
+		}
+		const input = createEl("input", { type: isDate ? "date" : "text", value: initial });
+		cell.empty();
+		cell.appendChild(input);
+		let done = false;
+		const finish = (save: boolean) => {
+			if (done) {
+				return;
+			}
+			done = true;
+			if (!save || input.value === initial) {
+				cell.empty();
+				original.forEach((node) => cell.appendChild(node));
+				return;
+			}
+			let value: FrontmatterValue = input.value.trim();
+			if (Array.isArray(current)) {
+				value = value.split(",").map((item) => item.trim()).filter((item) => item !== "");
+			} else if (value === "") {
+				value = null;
+			}
+			cell.setText(input.value);
+			this.writeFrontmatterValue(file, property, value);
+		};
+		input.addEventListener("keydown", (evt: KeyboardEvent) => {
+			if (evt.key === "Enter") {
+				finish(true);
+			} else if (evt.key === "Escape") {
+				finish(false);
+			}
+		});
+		input.addEventListener("blur", () => finish(true));
+		input.focus();
 	}
 
 	/**
-	 * Generate a file tree representation as a Markdown table of the given folder.
-	 * @param rootNode The root of the file tree that will be generated
-	 * @param node The current node in our recursive descent
-	 * @param indentLevel How many levels of indentation to draw (used internally)
-	 * @param topLevel Whether this is the top level of the tree or not
-	 * @returns The string representation of the tree, or null if the node is not a file or folder
-	 */
-	async getFileTreeRepresentation(rootNode: TFolder, node: TAbstractFile,	indentLevel: number, topLevel = false): Promise<string | null> {
-		// [변경] indent 및 bullet(트리용)은 사용하지 않음
-		if (!(node instanceof TFile) && !(node instanceof TFolder)) return null;
-
-		this.log(node.path);
-		if (this.ignorePath(node.path)) return null;
-
-		// // [변경] 파일일 경우 row로만 처리
-		// if (node instanceof TFile) {
-		// 	if (this.settings.debugLogging) {
-		// 		console.log(node);
-		// 	}
-		// 	let title: string | null = null;
-		// 	if (this.settings.useFrontMatterTitle) {
-		// 		const fm = this.app.metadataCache?.getFileCache(node)?.frontmatter;
-		// 		if (fm && fm.hasOwnProperty("title")) {
-		// 			title = fm.title;
-		// 		}
-		// 	}
-		//
-		// 	// [변경] Table row로 반환, wiki link 또는 markdown link 지원
-		// 	if (node.extension == "md") {
-		// 		if (this.settings.useWikiLinks) {
-		// 			return title
-		// 				? `|[[${node.basename}|${title}]]|`
-		// 				: `|[[${node.basename}]]|`;
-		// 		} else {
-		// 			return title
-		// 				? `|[${title}](${this.getEncodedUri(rootNode, node)})|`
-		// 				: `|[${node.basename}](${this.getEncodedUri(rootNode, node)})|`;
-		// 		}
-		// 	}
-		// 	// Non-markdown files
-		// 	if (this.settings.showNonMarkdownFiles) {
-		// 		if (this.settings.useWikiLinks) {
-		// 			return `|[[${node.name}]]|`;
-		// 		}
-		// 		return `|[${node.name}](${this.getEncodedUri(rootNode, node)})|`;
-		// 	}
-		// 	return null;
-		// }
-		//
-		// // [변경] 폴더 - 폴더 노트 경로 계산
-		// let folderNote: TFile | null = null;
-		// if (this.settings.folderNoteType === FolderNoteType.InsideFolder) {
-		// 	const note = this.app.vault.getAbstractFileByPath(
-		// 		node.path + "/" + node.name + ".md"
-		// 	);
-		// 	folderNote = note instanceof TFile ? note : null;
-		// } else if (node.parent) {
-		// 	const note = this.app.vault.getAbstractFileByPath(
-		// 		node.parent.path + "/" + node.name + ".md"
-		// 	);
-		// 	folderNote = note instanceof TFile ? note : null;
-		// }
-
-		// [변경] 자식 요소 처리(정렬/필터)
-		let children = node.children ? [...node.children] : [];
-		children = children.sort((a, b) => {
-			// 기본: 생성일(ctime) 기준 내림차순, 없으면 이름순
-			if (!a.stat?.ctime) return -1;
-			if (!b.stat?.ctime) return 1;
-			return new Date(b.stat.ctime).getTime() - new Date(a.stat.ctime).getTime();
+	 * Set a frontmatter property of a listed note and then update the waypoints listing it.
+	 */
+	async writeFrontmatterValue(file: TFile, key: string, value: FrontmatterValue) {
+		await this.updateQueue.enqueue("frontmatter:" + file.path + ":" + key, async () => {
+			const text = await this.app.vault.read(file);
+			await this.app.vault.modify(file, setFrontmatterValue(text, key, value));
 		});
+		this.foldersWithChanges.add(file.parent);
+		this.scheduleUpdate();
+	}
 
-		// 폴더노트 숨김/필터링
-		const filtered: TAbstractFile[] = [];
-		let folderNote:TFile;
-		for (const child of children) {
-			// TFile이면서 폴더노트라면 건너뛰고, 아니면 배열에 추가
-			if (this.ignorePath(child.path)) {
-				continue
-			}
+	/**
+	 * Show the progress of the update queue in the status bar while several notes are being updated.
+	 */
+	showUpdateProgress(completed: number, total: number) {
+		this.statusBarItem?.setText(total > 1 ? `Waypoint: updating ${completed + 1}/${total}` : "");
+	}
 
-			if (child instanceof TFile && this.isFolderNote(child)) {
-				folderNote = child
-				if (!this.settings.showFolderNotes) {
-					continue
-				}
+	/**
+	 * Regenerate every waypoint and landmark found in the given folder note.
+	 */
+	async updatePointsIn(file: TFile) {
+		const text = await this.app.vault.cachedRead(file);
+		for (const flagType of [WaypointType.Waypoint, WaypointType.Landmark]) {
+			if (await this.generator.containsPoint(text, flagType)) {
+				await this.updateWaypoint(file, flagType);
 			}
-
-			filtered.push(child);
 		}
-		children = filtered;
+		this.overwriteRequests.delete(file.path);
+		if (this.settings.autoExportFormat !== "") {
+			const { errors } = await this.exportPoints(file, this.settings.autoExportFormat as ExportFormat);
+			// Waypoints that cannot be generated already show their error in the note
+			errors.forEach((error) => this.log(`Unable to export the ${error} in ${file.path}`));
+		}
+		this.lastUpdates.set(file.path, Date.now());
+		this.refreshDashboards(file);
+	}
 
-		let out = `# ${rootNode.name}`
-		// [변경] 폴더 내 new file/new folder 버튼
+	/**
+	 * Move the folder note of a renamed folder along with it so that it remains its folder note.
+	 * @param folder The renamed folder
+	 * @param oldPath The path of the folder before it was renamed
+	 */
+	async renameFolderNote(folder: TFolder, oldPath: string) {
+		let oldNotePath = this.generator.getFolderNotePath(oldPath);
 		if (this.settings.folderNoteType === FolderNoteType.InsideFolder) {
-			if (this.settings.useWikiLinks) {
-				out +=
-					`\n[[${node.path}/new file.md\\|new file]] | [[${node.path}/new folder/new folder.md\\|new folder]]\n`;
-			} else {
-				const newFile = `${node.path}/new file.md`
-				const newFolder = `${node.path}/new folder/README.md`
-				out += `\n[new file](${newFile.replaceAll(" ", "%20")}) | [new folder](${newFolder.replaceAll(" ", "%20")})\n`;
-
-			}
-		} else if (node.parent) {
-			out +=
-				`\n[[${node.path}/new file.md\\|new file]]\n`;
-		}
-
-		// [변경] Table head: frontmatter keys 추출 (동적 column)
-		const frontmatter =
-			this.app.metadataCache?.getFileCache(folderNote ?? node as TFile)?.frontmatter;
-		let keyList = ["TITLE", "DATE"];
-		let dash = ["---", "---"];
-		if (
-			frontmatter != null &&
-			frontmatter.hasOwnProperty("keys") &&
-			Array.isArray(frontmatter.keys)
-		) {
-			for (const key of frontmatter.keys) {
-				keyList.push(key);
-				dash.push("---");
-			}
-		}
-
-		out += "\n|" + keyList.join("|") + "|\n|" + dash.join("|") + "|\n";
-
-		// [변경] 각 자식 노드를 Table Row로 추가 (재귀 x)
-		for (const child of children) {
-			let row = "";
-			let name: string = "";
-			let alias: string | null = null;
-			let ctime: number | string | undefined;
-			let f =
-				child instanceof TFile
-					? this.app.metadataCache?.getFileCache(child)?.frontmatter
-					: undefined;
-
-			for (const key of keyList) {
-				switch (key) {
-					case "TITLE":
-					case "Title":
-					case "title":
-						if (child instanceof TFile) {
-							name = child.extension == "md" ? child.basename : child.name;
-							if (this.settings.useFrontMatterTitle) {
-								if (f && f.hasOwnProperty("title")) name = f.title;
-							}
-							if (this.settings.useWikiLinks) {
-								row += `|[[${child.path}\\|${name}]]`;
-							} else {
-								row += `|[${name}](${child.path.replaceAll(" ", "%20")})`;
-							}
-						} else if (child instanceof TFolder) {
-							let path: string;
-							if (this.settings.folderNoteType === FolderNoteType.InsideFolder) {
-								if (this.settings.folderNoteName == "") {
-									path = child.path + "/" + child.name + ".md";
-								} else {
-									path = child.path + "/" + this.settings.folderNoteName + ".md";
-								}
-							} else if (node.parent) {
-								if (this.settings.folderNoteName == "") {
-									path = child.path + "/" + child.name + ".md";
-								} else {
-									path = child.path + "/" + this.settings.folderNoteName + ".md";
-								}
-							} else {
-								path = "";
-							}
-							if (this.settings.useWikiLinks) {
-								row += `|[[${path}\\|${child.name}]]`;
-							} else {
-								row += `|[${child.name}](${path.replaceAll(" ", "%20")})`;
-							}
-						}
-						break;
-
-					case "DATE":
-					case "Date":
-					case "date":
-						if (child instanceof TFile) {
-							if (f?.DATE) ctime = f.DATE;
-							else if (f?.Date) ctime = f.Date;
-							else if (f?.date) ctime = f.date;
-							else ctime = child.stat?.ctime;
-							let date = new Date(ctime ?? "");
-							row += `|${date.getFullYear()}-${this.addZero(
-								date.getMonth() + 1
-							)}-${this.addZero(date.getDate())} (${this.convertDay(date.getDay())})`;
-						} else {
-							row += "|";
-						}
-						break;
-
-					case "tags":
-						if (f && f.hasOwnProperty(key)) {
-							let val = f[key];
-							if (Array.isArray(val)) val = val.join(" ");
-							row += `|${val}`;
-						} else row += "|";
-						break;
-
-					default:
-						if (f && f.hasOwnProperty(key)) {
-							let val = f[key];
-							// array인 경우
-							if (Array.isArray(val)) {
-								val = val.map((v: string) => this.convertLink(v, key)).join(", ");
-							} else {
-								val = this.convertLink(val, key);
-							}
-							if (val === null) val = "";
-							if (val === undefined) val = "b";
-							row += `|${val}`;
-						} else {
-							row += "|";
-						}
-						break;
-				}
-			}
-			row += "|\n";
-			out += row;
+			// Folder notes inside the folder have already been moved along with it
+			oldNotePath = folder.path + oldNotePath.substring(oldPath.length);
 		}
-
-		return out;
+		const folderNote = this.app.vault.getAbstractFileByPath(oldNotePath);
+		const newNotePath = this.generator.getFolderNotePath(folder.path);
+		if (!(folderNote instanceof TFile) || oldNotePath === newNotePath) {
+			return;
+		}
+		if (this.app.vault.getAbstractFileByPath(newNotePath) !== null) {
+			this.log("Not renaming " + oldNotePath + ", " + newNotePath + " already exists");
+			return;
+		}
+		this.log("Renaming folder note " + oldNotePath + " to " + newNotePath);
+		await this.app.fileManager.renameFile(folderNote, newNotePath);
 	}
-	convertDay(dt: number): string {
-		switch (dt) {
-			case 0: return "일";
-			case 1: return "월";
-			case 2: return "화";
-			case 3: return "수";
-			case 4: return "목";
-			case 5: return "금";
-			case 6: return "토";
-			default: return ""; // 예외 처리
+
+	async printError(file: TFile, error: string, flagType: WaypointType) {
+		this.log("Creating " + flagType + " error in " + file.path);
+		const text = await this.app.vault.read(file);
+		const lines: string[] = text.split("\n");
+		const [block] = await this.generator.locateWaypointBlocks(lines, flagType);
+		if (block === undefined) {
+			console.error("Error: No " + flagType + " flag found while trying to print error.");
+			return;
 		}
+		lines.splice(block.start, block.end !== -1 ? block.end - block.start + 1 : 1, error);
+		await this.app.vault.modify(file, lines.join("\n"));
 	}
 
-	addZero(dt: number): string {
-		const dtStr = dt.toString();
-		if (dtStr.length === 1) {
-			return "0" + dtStr;
-		} else {
-			return dtStr;
+	/**
+	 * Given a file with a waypoint flag, generate a file tree representation and update the waypoint text.
+	 * @param file The file to update
+	 */
+	async updateWaypoint(file: TFile, flagType: WaypointType) {
+		// alert("updateWaypoint")
+
+		this.log("Updating " + flagType + " in " + file.path);
+		const event: WaypointUpdateEvent = { file, type: flagType };
+		this.app.workspace.trigger(BEFORE_UPDATE_EVENT, event);
+		const updated: WaypointUpdatedEvent = { ...event, changed: false, conflicts: 0 };
+		try {
+			const text = await this.app.vault.read(file);
+			const result = await this.generator.updateBlocks(file, text, flagType, this.overwriteRequests.has(file.path));
+			if (result === null) {
+				console.error("Error: No " + flagType + " found while trying to update " + file.path);
+				return;
+			}
+			updated.conflicts = result.conflicts.length;
+			if (result.conflicts.length > 0) {
+				this.reportEditConflicts(file, flagType, text.split("\n"), result.conflicts);
+			}
+			if (result.text === text) {
+				// Writing the same content would only trigger another round of change events
+				this.log("No changes to " + flagType + " in " + file.path);
+				return;
+			}
+			await this.app.vault.modify(file, result.text);
+			updated.changed = true;
+		} finally {
+			// Every update that started is reported as finished, even if it failed, so that both events stay paired
+			this.app.workspace.trigger(AFTER_UPDATE_EVENT, updated);
 		}
 	}
 
-	convertLink(v: any, k: string): string {
-		if (typeof v === "string" && v.length > 12) {
-			if (v === "[[") return "";
-			if (v === null) return "";
-			if (v.startsWith("[[")) return v.replace("]]", `\\|${k}]]`);
-			if (v.startsWith("https://") || v.startsWith("http://")) return `[${k}](${v})`;
-			return v;
+	/**
+	 * Show a notice for blocks that were not updated to protect manual edits, offering to overwrite them, keep the edits,
+	 * or save them to a backup note and then overwrite them. Blocks missing their end marker cannot be overwritten,
+	 * as there is no telling where they end, so the notice asks to add the marker back instead.
+	 * @param file The folder note containing the blocks
+	 * @param flagType The type of the blocks
+	 * @param lines The lines of the note before it was updated
+	 * @param conflicts The blocks that were not updated along with the reason why, in the order they appear in the note
+	 */
+	reportEditConflicts(file: TFile, flagType: WaypointType, lines: string[], conflicts: [WaypointBlock, string][]) {
+		if (this.keptEdits.has(file.path) || this.conflictNotices.get(file.path)?.isConnected) {
+			return;
+		}
+		const reasons = conflicts.map(([block, reason]) => `${block.name === "" ? "The " + flagType : `The ${flagType} "${block.name}"`} in ${file.basename} was not updated as ${reason}.`);
+		const editedBlocks = conflicts.filter(([block]) => block.end !== -1).map(([block]) => block);
+		if (editedBlocks.length < conflicts.length) {
+			reasons.push(`Add the end marker back (${this.generator.getMarker(flagType === WaypointType.Landmark ? WaypointGenerator.END_LANDMARK : WaypointGenerator.END_WAYPOINT, "")}) where the generated content ends to update it again.`);
 		}
-		return String(v); // 숫자, null 등도 string으로 반환
+		const notice = new Notice(createFragment((el) => {
+			this.conflictNotices.set(file.path, el.createDiv({ text: reasons.join(" ") }));
+			const buttons = el.createDiv();
+			const addButton = (text: string, onClick: () => Promise<void> | void) => {
+				buttons.createEl("button", { text }).addEventListener("click", async (event) => {
+					// Keep the click from dismissing the notice before the action completes
+					event.stopPropagation();
+					notice.hide();
+					this.conflictNotices.delete(file.path);
+					await onClick();
+				});
+			};
+			if (editedBlocks.length > 0) {
+				addButton("Overwrite", () => this.overwriteWaypoints(file));
+			}
+			addButton("Keep edits", () => {
+				this.keptEdits.add(file.path);
+			});
+			if (editedBlocks.length > 0) {
+				addButton("Back up and overwrite", async () => {
+					// Without their markers, the backups are not taken for waypoints of their own
+					const backup = editedBlocks.map((block) => lines.slice(block.start + 1, block.end).join("\n")).join("\n\n");
+					await this.backUpWaypoint(file, backup);
+					await this.overwriteWaypoints(file);
+				});
+			}
+		}), 0);
 	}
 
+	/**
+	 * Update the given folder note, replacing its blocks even if they were edited by hand.
+	 */
+	async overwriteWaypoints(file: TFile) {
+		this.keptEdits.delete(file.path);
+		this.overwriteRequests.add(file.path);
+		await this.queueUpdate(file);
+	}
 
+	/**
+	 * Save the given content of a folder note to a new note in the backup folder.
+	 */
+	async backUpWaypoint(file: TFile, content: string) {
+		const folder = normalizePath(this.settings.backupFolder);
+		if (this.app.vault.getAbstractFileByPath(folder) === null) {
+			await this.app.vault.createFolder(folder);
+		}
+		const path = normalizePath(`${folder}/${file.basename} ${moment().format("YYYY-MM-DD HHmmss")}.md`);
+		await this.app.vault.create(path, `Backup of [[${file.path}|${file.basename}]]\n\n${content}\n`);
+		new Notice(`Saved a backup of ${file.basename} to ${path}`);
+	}
 
 	/**
-	 * Generate an encoded URI path to the given file that is relative to the given root.
-	 * @param rootNode The from which the relative path will be generated
-	 * @param node The node to which the path will be generated
-	 * @returns The encoded path
+	 * Generate the content of a live waypoint, i.e. a code block that is rendered when viewed instead of being written to the note.
+	 * @param source The content of the code block, which holds the same options as a waypoint flag
+	 * @param sourcePath The path of the note containing the code block
+	 * @throws Error if the note is not a folder note or the options are invalid
 	 */
-	getEncodedUri(rootNode: TFolder, node: TAbstractFile) {
-		if (rootNode.isRoot()) {
-			return `./${encodeURI(node.path)}`;
+	async generateLiveWaypointContent(source: string, sourcePath: string): Promise<string> {
+		const file = this.app.vault.getAbstractFileByPath(sourcePath);
+		const folder = file instanceof TFile && this.generator.isFolderNote(file) ? this.generator.getFolderOfNote(file) : null;
+		if (folder === null) {
+			throw new Error("Cannot create a live waypoint in a note that's not the folder note");
 		}
-		return `./${encodeURI(node.path.substring(rootNode.path.length + 1))}`;
+		const options = this.generator.parseWaypointOptions(this.getLiveWaypointOptions(source));
+		return this.generator.generateWaypointContent(folder, folder, options, sourcePath);
 	}
 
-	ignorePath(path: string): boolean {
-		let found = false;
-		this.settings.ignorePaths.forEach((comparePath) => {
-			if (comparePath === "") {
-				// Ignore empty paths (occurs when the setting value is empty)
+	/**
+	 * Get the inline options of a live waypoint, which may be spread over several lines.
+	 */
+	getLiveWaypointOptions(source: string): string {
+		return source.trim().split(/\s*\n\s*/).join(" ");
+	}
+
+	/**
+	 * Replace every live waypoint code block in the given folder note with a regular waypoint using the same options.
+	 */
+	async freezeLiveWaypoints(file: TFile) {
+		const blockRegex = new RegExp("^```" + Waypoint.LIVE_WAYPOINT_LANGUAGE + "[ \\t]*\\n([\\s\\S]*?)^```[ \\t]*$", "gm");
+		let count = 0;
+		// Read the note within the update so that updates queued before it are not overwritten
+		await this.updateQueue.enqueue("freeze:" + file.path, async () => {
+			const text = await this.app.vault.read(file);
+			const frozen = text.replace(blockRegex, (match: string, source: string) => {
+				count++;
+				return this.generator.getMarker(this.settings.waypointFlag, "", this.getLiveWaypointOptions(source));
+			});
+			if (count === 0) {
 				return;
 			}
-			const regex = new RegExp(comparePath);
-			if (path.match(regex)) {
-				this.log(`Ignoring path: ${path}`);
-				found = true;
-			}
+			await this.app.vault.modify(file, frozen);
+			await this.updateWaypoint(file, WaypointType.Waypoint);
 		});
-		if (found) {
-			return true;
-		}
-		return false;
+		new Notice(count === 0
+			? "No live waypoints found in " + file.basename
+			: `Froze ${count} live waypoint${count === 1 ? "" : "s"} in ${file.basename}`);
 	}
 
 	/**
@@ -588,12 +1013,16 @@ export default class Waypoint extends Plugin {
 	updateChangedFolders = async () => {
 		this.log("Updating changed folders...");
 		// alert("Updating changed folders...");
-		this.foldersWithChanges.forEach((folder) => {
+		const folders = [...this.foldersWithChanges];
+		this.foldersWithChanges.clear();
+		if (this.automaticUpdatesPaused) {
+			return;
+		}
+		await Promise.all(folders.map((folder) => {
 			this.log("Updating " + folder.path);
 			// alert("Updating " + folder.path);
-			this.updateParentPoint(folder, true);
-		});
-		this.foldersWithChanges.clear();
+			return this.updateParentPoint(folder, true);
+		}));
 	};
 
 	/**
@@ -603,6 +1032,7 @@ export default class Waypoint extends Plugin {
 
 	/**
 	 * Update the ancestor waypoint (if any) of the given file/folder.
+	 * Landmarks do not stop the listing of their enclosing waypoint, so the search continues past them until a waypoint is updated.
 	 * @param node The node to start the search from
 	 * @param includeCurrentNode Whether to include the given folder in the search
 	 */
@@ -613,8 +1043,12 @@ export default class Waypoint extends Plugin {
 		if (parentPoint === null) {
 			return;
 		}
-		this.updateWaypoint(parentPoint, parentFlag);
-		this.updateParentPoint(parentPoint.parent, false);
+		const update = this.queueUpdate(parentPoint);
+		if (parentFlag === WaypointType.Landmark) {
+			// Folder notes outside their folder already live in the parent folder
+			await this.updateParentPoint(parentPoint.parent, this.settings.folderNoteType === FolderNoteType.OutsideFolder);
+		}
+		await update;
 	};
 
 	/**
@@ -628,31 +1062,10 @@ export default class Waypoint extends Plugin {
 		// alert("Locating parent flag and file of " + node.name);
 		let folder = includeCurrentNode ? node : node.parent;
 		while (folder) {
-			let folderNote;
-			if (this.settings.folderNoteType === FolderNoteType.InsideFolder) {
-				let filename;
-				if (this.settings.folderNoteName == "") {
-					filename = folder.name;
-				} else {
-					filename = this.settings.folderNoteName;
-				}
-				folderNote = this.app.vault.getAbstractFileByPath(folder.path + "/" + filename + ".md");
-			} else {
-				if (folder.parent) {
-					folderNote = this.app.vault.getAbstractFileByPath(this.getCleanParentPath(folder) + folder.name + ".md");
-				}
-			}
-			if (folderNote instanceof TFile) {
-				this.log("Found folder note: " + folderNote.path);
-				const text = await this.app.vault.cachedRead(folderNote);
-				if (text.includes(Waypoint.BEGIN_WAYPOINT) || text.includes(this.settings.waypointFlag)) {
-					this.log("Found parent waypoint!");
-					return [WaypointType.Waypoint, folderNote];
-				}
-				if (text.includes(Waypoint.BEGIN_LANDMARK) || text.includes(this.settings.landmarkFlag)) {
-					this.log("Found parent landmark!");
-					return [WaypointType.Landmark, folderNote];
-				}
+			const pointType = folder instanceof TFolder ? await this.generator.getPointOf(folder) : null;
+			if (pointType !== null) {
+				this.log("Found parent " + pointType + "!");
+				return [pointType, this.generator.getFolderNoteOf(folder as TFolder) as TFile];
 			}
 			folder = folder.parent;
 		}
@@ -685,6 +1098,360 @@ export default class Waypoint extends Plugin {
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		// Settings such as the ignored paths change what the dashboard reports
+		this.refreshDashboards();
+	}
+}
+
+/**
+ * The vault of the app, as seen by the waypoint generator.
+ */
+class ObsidianVault implements Vault {
+	constructor(private app: App) {}
+
+	getRoot(): TFolder {
+		return this.app.vault.getRoot();
+	}
+
+	getNode(path: string): TAbstractFile | null {
+		return this.app.vault.getAbstractFileByPath(path);
+	}
+
+	read(file: VaultFile): Promise<string> {
+		return this.app.vault.cachedRead(file as TFile);
+	}
+
+	getMetadata(file: VaultFile): FileMetadata | null {
+		return this.app.metadataCache?.getFileCache(file as TFile) ?? null;
+	}
+
+	getResolvedLinks(): Record<string, Record<string, number>> {
+		return this.app.metadataCache?.resolvedLinks ?? {};
+	}
+
+	getLinkText(file: VaultFile, sourcePath: string): string {
+		return this.app.metadataCache.fileToLinktext(file as TFile, sourcePath, true);
+	}
+
+	getLinkFormat(): string {
+		// The settings of the vault are not part of the API of this version of Obsidian
+		const vault = this.app.vault as unknown as { getConfig?: (key: string) => unknown };
+		const format = vault.getConfig?.("newLinkFormat");
+		return typeof format === "string" ? format : "shortest";
+	}
+}
+
+/**
+ * The API of the plugin for other plugins and scripts, see WaypointApi.
+ */
+class WaypointPluginApi implements WaypointApi {
+	readonly version = 1;
+
+	constructor(private plugin: Waypoint) {}
+
+	async getRows(folder: TFolder | string, options = ""): Promise<ExportTable> {
+		const target = this.getFolder(folder);
+		const generator = this.plugin.generator;
+		const sourcePath = target.isRoot() ? "" : generator.getFolderNotePath(target.path);
+		return generator.getRows(target, generator.parseWaypointOptions(options), sourcePath);
+	}
+
+	async getEnclosingPoint(file: TAbstractFile | string, type?: WaypointType): Promise<PointInfo | null> {
+		const node = typeof file === "string" ? this.plugin.app.vault.getAbstractFileByPath(normalizePath(file)) : file;
+		if (node === null) {
+			return null;
+		}
+		const generator = this.plugin.generator;
+		// Folder notes are listed by the waypoint above the folder they describe
+		let folder = node instanceof TFile && generator.isFolderNote(node) ? generator.getFolderOfNote(node)?.parent as TFolder : node.parent;
+		while (folder) {
+			const pointType = await generator.getPointOf(folder);
+			if (pointType !== null && (type === undefined || pointType === type)) {
+				return { type: pointType, note: generator.getFolderNoteOf(folder) as TFile, folder };
+			}
+			folder = folder.parent;
+		}
+		return null;
+	}
+
+	isFolderNote(file: TFile | string): boolean {
+		const target = typeof file === "string" ? this.plugin.app.vault.getAbstractFileByPath(normalizePath(file)) : file;
+		return target instanceof TFile && this.plugin.generator.isFolderNote(target);
+	}
+
+	getFolderNote(folder: TFolder | string): TFile | null {
+		return this.plugin.generator.getFolderNoteOf(this.getFolder(folder)) as TFile | null;
+	}
+
+	async regenerate(file?: TFile | string, overwrite = false) {
+		const update = (note: TFile) => overwrite ? this.plugin.overwriteWaypoints(note) : this.plugin.queueUpdate(note);
+		if (file === undefined) {
+			await Promise.all((await this.plugin.getPointNotes()).map(update));
+			return;
+		}
+		const note = typeof file === "string" ? this.plugin.app.vault.getAbstractFileByPath(normalizePath(file)) : file;
+		if (!(note instanceof TFile) || !this.plugin.generator.isFolderNote(note)) {
+			throw new Error(`${typeof file === "string" ? file : file.path} is not a folder note`);
+		}
+		await update(note);
+	}
+
+	registerFormatter(type: string, formatter: Formatter) {
+		registerFormatter(type, formatter);
+	}
+
+	/**
+	 * @throws Error if there is no folder at the given path
+	 */
+	private getFolder(folder: TFolder | string): TFolder {
+		const target = typeof folder === "string" ? this.plugin.app.vault.getAbstractFileByPath(normalizePath(folder)) : folder;
+		if (!(target instanceof TFolder)) {
+			throw new Error(`${folder} is not a folder`);
+		}
+		return target;
+	}
+}
+
+/**
+ * Renders a live waypoint code block in reading view and keeps it up to date while it is displayed.
+ */
+class LiveWaypointRenderer extends MarkdownRenderChild {
+	plugin: Waypoint;
+	source: string;
+	sourcePath: string;
+
+	constructor(plugin: Waypoint, containerEl: HTMLElement, source: string, sourcePath: string) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+		this.sourcePath = sourcePath;
+	}
+
+	onload() {
+		this.render();
+		const scheduleRender = debounce(() => this.render(), 500, true);
+		this.registerEvent(this.plugin.app.vault.on("create", scheduleRender));
+		this.registerEvent(this.plugin.app.vault.on("delete", scheduleRender));
+		this.registerEvent(this.plugin.app.vault.on("rename", scheduleRender));
+		this.registerEvent(this.plugin.app.metadataCache.on("changed", scheduleRender));
+		this.registerDomEvent(this.containerEl, "click", (evt: MouseEvent) => {
+			const link = (evt.target as HTMLElement).closest("a.internal-link");
+			if (link === null) {
+				return;
+			}
+			evt.preventDefault();
+			evt.stopPropagation();
+			const href = link.getAttribute("data-href") ?? link.getAttribute("href");
+			this.plugin.app.workspace.openLinkText(href, this.sourcePath, evt.ctrlKey || evt.metaKey);
+		});
+	}
+
+	async render() {
+		let markdown: string;
+		try {
+			markdown = await this.plugin.generateLiveWaypointContent(this.source, this.sourcePath);
+		} catch (e) {
+			this.containerEl.empty();
+			this.containerEl.createEl("p", { text: `${this.plugin.generator.getLocale().errors.prefix}: ${e.message}.`, cls: "waypoint-error" });
+			return;
+		}
+		this.containerEl.empty();
+		await MarkdownRenderer.renderMarkdown(markdown, this.containerEl, this.sourcePath, this);
+		this.containerEl.querySelectorAll("table").forEach((table) => this.plugin.makeTableEditable(table, this.sourcePath));
+	}
+}
+
+/**
+ * Lists every waypoint and landmark in the vault with the folder it lists, its number of rows, when it was last
+ * regenerated and any problem, so that errors can be found without opening each folder note.
+ */
+class WaypointDashboardView extends ItemView {
+	static readonly VIEW_TYPE = "waypoint-dashboard";
+
+	plugin: Waypoint;
+	// The reports of each note by path, so that a change only checks the notes it affects
+	reports = new Map<string, PointReport[]>();
+	// The notes to check again on the next refresh
+	changedPaths = new Set<string>();
+	// Whether the next refresh checks the whole vault, e.g. after the settings changed
+	fullRefresh = true;
+	scheduleRefresh = debounce(() => this.refresh(), 1000, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: Waypoint) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return WaypointDashboardView.VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Waypoint dashboard";
+	}
+
+	getIcon(): string {
+		return "bullet-list";
+	}
+
+	async onOpen() {
+		this.addAction("reset", "Refresh", () => {
+			this.fullRefresh = true;
+			this.refresh();
+		});
+		// Waypoints listing changed notes are checked again once the plugin has updated them
+		this.registerEvent(this.app.vault.on("create", (file) => this.queueRefresh(file.path)));
+		this.registerEvent(this.app.vault.on("modify", (file) => this.queueRefresh(file.path)));
+		this.registerEvent(this.app.vault.on("delete", (file) => this.queueRefresh(file.path)));
+		this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+			this.queueRefresh(oldPath);
+			this.queueRefresh(file.path);
+		}));
+		await this.refresh();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Check the given note (or every note within the given folder) on the next refresh.
+	 * @param path The path of the note or folder, or undefined to check the whole vault
+	 */
+	queueRefresh(path?: string) {
+		if (path === undefined) {
+			this.fullRefresh = true;
+		} else {
+			this.changedPaths.add(path);
+			// The notes of a deleted or renamed folder are no longer at their path
+			[...this.reports.keys()].filter((notePath) => notePath.startsWith(path + "/")).forEach((notePath) => this.changedPaths.add(notePath));
+		}
+		this.scheduleRefresh();
+	}
+
+	/**
+	 * Check the changed notes (or every note if needed) again and list every waypoint and landmark.
+	 */
+	async refresh() {
+		const generator = this.plugin.generator;
+		if (this.fullRefresh) {
+			this.fullRefresh = false;
+			this.changedPaths.clear();
+			this.reports.clear();
+			for (const report of await generator.inspectVault()) {
+				this.reports.set(report.notePath, [...this.reports.get(report.notePath) ?? [], report]);
+			}
+		} else {
+			const paths = [...this.changedPaths];
+			this.changedPaths.clear();
+			for (const path of paths) {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				const reports = file instanceof TFile && file.extension === "md" ? await generator.inspectNote(file) : [];
+				if (reports.length > 0) {
+					this.reports.set(path, reports);
+				} else {
+					this.reports.delete(path);
+				}
+			}
+		}
+		const reports = [...this.reports.values()]
+			.reduce((all, noteReports) => all.concat(noteReports), [] as PointReport[])
+			.sort((a, b) => a.notePath.localeCompare(b.notePath) || a.line - b.line);
+		const settingsProblems = this.plugin.generator.getSettingsProblems();
+		const withProblems = reports.filter((report) => report.problems.length > 0).length;
+		this.contentEl.empty();
+		this.contentEl.createEl("p", {
+			text: `${reports.length} waypoints, landmarks and errors found, ${withProblems} with problems`
+		});
+		for (const problem of settingsProblems) {
+			this.contentEl.createEl("p", { text: `Settings: ${problem}`, cls: "waypoint-error" }).style.color = "var(--text-error)";
+		}
+		reports.forEach((report) => this.renderReport(report));
+	}
+
+	/**
+	 * Add an item for a waypoint or landmark, with actions to open its note and regenerate it.
+	 */
+	renderReport(report: PointReport) {
+		const item = this.contentEl.createDiv({ cls: "waypoint-dashboard-item" });
+		item.style.marginBottom = "1em";
+		let title = report.type === null ? "Error" : report.type.charAt(0).toUpperCase() + report.type.substring(1);
+		if (report.name !== "") {
+			title += ` "${report.name}"`;
+		}
+		const heading = item.createDiv({ text: `${title} in ${report.notePath}`, cls: "waypoint-dashboard-title" });
+		heading.style.fontWeight = "bold";
+		heading.style.cursor = "pointer";
+		heading.addEventListener("click", (evt: MouseEvent) => this.openReport(report, evt.ctrlKey || evt.metaKey));
+		const details = [`Folder: ${report.folderPath ?? "none"}`];
+		if (report.rows !== null) {
+			details.push(`${report.rows} row${report.rows === 1 ? "" : "s"}`);
+		}
+		const lastUpdate = this.plugin.lastUpdates.get(report.notePath);
+		details.push(lastUpdate !== undefined ? `Updated ${moment(lastUpdate).calendar()}` : "Not updated since Obsidian started");
+		item.createDiv({ text: details.join(" · ") });
+		if (report.problems.length > 0) {
+			const problems = item.createEl("ul", { cls: "waypoint-error" });
+			problems.style.color = "var(--text-error)";
+			report.problems.forEach((problem) => problems.createEl("li", { text: problem }));
+		}
+		const buttons = item.createDiv();
+		buttons.createEl("button", { text: "Open" }).addEventListener("click", () => this.openReport(report, false));
+		if (report.type !== null && report.folderPath !== null) {
+			buttons.createEl("button", { text: "Regenerate" }).addEventListener("click", async () => {
+				const file = this.app.vault.getAbstractFileByPath(report.notePath);
+				if (file instanceof TFile) {
+					await this.plugin.queueUpdate(file);
+					new Notice("Rebuilt the waypoints in " + file.basename);
+				}
+			});
+		}
+	}
+
+	/**
+	 * Open the note of a report at the line of its waypoint or error.
+	 */
+	openReport(report: PointReport, newLeaf: boolean) {
+		this.app.workspace.openLinkText(report.notePath, "", newLeaf, { eState: { line: report.line } });
+	}
+}
+
+/**
+ * Asks for the name of a new note or folder.
+ */
+class NamePromptModal extends Modal {
+	title: string;
+	onSubmit: (name: string) => void;
+
+	constructor(app: App, title: string, onSubmit: (name: string) => void) {
+		super(app);
+		this.title = title;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		this.titleEl.setText(this.title);
+		const input = new TextComponent(this.contentEl).setPlaceholder("Name");
+		input.inputEl.style.width = "100%";
+		input.inputEl.addEventListener("keydown", (evt: KeyboardEvent) => {
+			if (evt.key === "Enter") {
+				evt.preventDefault();
+				this.submit(input.getValue());
+			}
+		});
+		const buttons = this.contentEl.createDiv({ cls: "modal-button-container" });
+		buttons.createEl("button", { text: "Create", cls: "mod-cta" }).addEventListener("click", () => this.submit(input.getValue()));
+		buttons.createEl("button", { text: "Cancel" }).addEventListener("click", () => this.close());
+		input.inputEl.focus();
+	}
+
+	submit(name: string) {
+		this.close();
+		this.onSubmit(name.trim());
+	}
+
+	onClose() {
+		this.contentEl.empty();
 	}
 }
 
@@ -706,24 +1473,35 @@ class WaypointSettingsTab extends PluginSettingTab {
 			.addDropdown((dropdown) =>
 				dropdown
 					.addOption(FolderNoteType.InsideFolder, "Folder Name Inside")
-					// .addOption(FolderNoteType.OutsideFolder, "Folder Name Outside")
+					.addOption(FolderNoteType.OutsideFolder, "Folder Name Outside")
 					.setValue(this.plugin.settings.folderNoteType)
 					.onChange(async (value) => {
 						this.plugin.settings.folderNoteType = value;
 						await this.plugin.saveSettings();
+						this.plugin.scheduleIndexRebuild();
 					})
 			);
 		new Setting(containerEl)
 			.setName("Folder Note Name")
-			.setDesc("If you use custom folder note name. Write that name.")
+			.setDesc("If you use custom folder note name. Write that name. Only used for folder notes inside their folder.")
 			.addText((text) =>
 				text
 					.setValue(this.plugin.settings.folderNoteName)
 					.onChange(async (value) => {
 						this.plugin.settings.folderNoteName = value;
 						await this.plugin.saveSettings();
+						this.plugin.scheduleIndexRebuild();
 					})
 			);
+		new Setting(containerEl)
+			.setName("Rename Folder Notes")
+			.setDesc("If enabled, renaming a folder also renames its folder note so that its waypoint keeps working. Leave this disabled if another plugin already does this.")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.renameFolderNotes).onChange(async (value) => {
+					this.plugin.settings.renameFolderNotes = value;
+					await this.plugin.saveSettings();
+				})
+			);
 		// new Setting(containerEl)
 		// 	.setName("Debug Plugin")
 		// 	.setDesc("If enabled, the plugin will create extensive logs.")
@@ -735,6 +1513,122 @@ class WaypointSettingsTab extends PluginSettingTab {
 		// 				await this.plugin.saveSettings();
 		// 			})
 		// 	);
+		new Setting(containerEl)
+			.setName("Render Mode")
+			.setDesc("Whether waypoints are generated as a table of the folder's contents, a tree of every nested file and folder, or both. Can be overridden with the \"mode\" option of a waypoint.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption(RenderMode.Table, "Table")
+					.addOption(RenderMode.Tree, "Tree")
+					.addOption(RenderMode.Both, "Table and tree")
+					.setValue(this.plugin.settings.renderMode)
+					.onChange(async (value) => {
+						this.plugin.settings.renderMode = value;
+						await this.plugin.saveSettings();
+					})
+			);
+		new Setting(containerEl)
+			.setName("Layout")
+			.setDesc("How the contents of the folder are displayed: as a table, a nested bullet list, a gallery of cards or a compact inline list. Can be overridden with the \"layout\" option of a waypoint.")
+			.addDropdown((dropdown) => {
+				for (const name of getLayoutNames()) {
+					dropdown.addOption(name, name.charAt(0).toUpperCase() + name.slice(1));
+				}
+				dropdown
+					.setValue(this.plugin.settings.layout)
+					.onChange(async (value) => {
+						this.plugin.settings.layout = value;
+						await this.plugin.saveSettings();
+					});
+			});
+		new Setting(containerEl)
+			.setName("Cover Property")
+			.setDesc("The frontmatter property holding the cover image of a note, shown in the cards layout.")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.coverProperty)
+					.setValue(this.plugin.settings.coverProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.coverProperty = value.trim() || DEFAULT_SETTINGS.coverProperty;
+						await this.plugin.saveSettings();
+					})
+			);
+		new Setting(containerEl)
+			.setName("Backup Folder")
+			.setDesc("The folder where blocks edited by hand are saved before they are overwritten.")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.backupFolder)
+					.setValue(this.plugin.settings.backupFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.backupFolder = value.trim() || DEFAULT_SETTINGS.backupFolder;
+						await this.plugin.saveSettings();
+					})
+			);
+		new Setting(containerEl)
+			.setName("Template")
+			.setDesc("The note used as the template for notes created from a waypoint, unless the folder note sets its own \"template\" property. Leave empty to start from a blank note.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Templates/Note")
+					.setValue(this.plugin.settings.templatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.templatePath = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+		new Setting(containerEl)
+			.setName("Auto Export")
+			.setDesc("Export every waypoint whenever it is regenerated, so that the export stays up to date. Waypoints can also be exported with the export commands.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("", "Off")
+					.addOption(ExportFormat.Csv, "CSV")
+					.addOption(ExportFormat.Json, "JSON")
+					.addOption(ExportFormat.Html, "HTML")
+					.setValue(this.plugin.settings.autoExportFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.autoExportFormat = value;
+						await this.plugin.saveSettings();
+					})
+			);
+		new Setting(containerEl)
+			.setName("Export Folder")
+			.setDesc("The folder that exports are written to, in the same folders as their folder notes. Leave empty to export next to each folder note.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Exports")
+					.setValue(this.plugin.settings.exportFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.exportFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+		new Setting(containerEl)
+			.setName("Language")
+			.setDesc("The language of the headers, labels, dates and errors written into waypoints. Automatic follows the language of Obsidian and falls back to English.")
+			.addDropdown((dropdown) => {
+				dropdown.addOption("auto", "Automatic");
+				for (const code of getLocaleCodes()) {
+					dropdown.addOption(code, LANGUAGE_NAMES[code] ?? code);
+				}
+				dropdown.setValue(this.plugin.settings.language).onChange(async (value) => {
+					this.plugin.settings.language = value;
+					await this.plugin.saveSettings();
+				});
+			});
+		new Setting(containerEl)
+			.setName("Date Format")
+			.setDesc("The format of the DATE column and of date columns without their own format, using moment.js tokens (e.g. YYYY-MM-DD (ddd)). Set to \"relative\" to show dates such as \"3 days ago\".")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.dateFormat)
+					.setValue(this.plugin.settings.dateFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.dateFormat = value.trim() || DEFAULT_SETTINGS.dateFormat;
+						await this.plugin.saveSettings();
+					})
+			);
 		new Setting(containerEl)
 			.setName("Show Folder Notes")
 			.setDesc("If enabled, folder notes will be listed alongside other notes in the generated waypoints.")
@@ -773,7 +1667,7 @@ class WaypointSettingsTab extends PluginSettingTab {
 			);
 		new Setting(containerEl)
 			.setName("Use WikiLinks")
-			.setDesc("If enabled, links will be generated like [[My Page]] instead of [My Page](../Folder/My%Page.md).")
+			.setDesc("If enabled, links will be generated like [[My Page]] instead of [My Page](../Folder/My%Page.md), following the \"New link format\" of Obsidian.")
 			.addToggle((toggle) =>
 				toggle.setValue(this.plugin.settings.useWikiLinks).onChange(async (value) => {
 					this.plugin.settings.useWikiLinks = value;
@@ -789,6 +1683,53 @@ class WaypointSettingsTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				})
 			);
+		const sortOrderSetting = new Setting(containerEl)
+			.setName("Sort Order")
+			.setDesc("Comma-separated properties to sort the generated tables by, e.g. \"-date, title\". Use title, date, ctime, mtime or any frontmatter key, prefixed with \"-\" for descending order. Can be overridden with the \"sort\" property of a folder note.");
+		const sortOrderError = sortOrderSetting.descEl.createDiv({ cls: "waypoint-error" });
+		sortOrderError.style.color = "var(--text-error)";
+		sortOrderSetting.addText((text) =>
+			text
+				.setPlaceholder(DEFAULT_SETTINGS.sortOrder)
+				.setValue(this.plugin.settings.sortOrder)
+				.onChange(async (value) => {
+					// An empty field stands for the default shown as its placeholder
+					const order = value.trim() === "" ? DEFAULT_SETTINGS.sortOrder : value;
+					try {
+						parseSortOrder(order);
+					} catch (e) {
+						// Keep the last valid sort order while the field is being edited
+						sortOrderError.setText(`Error: ${e.message}. The sort order was not changed.`);
+						return;
+					}
+					sortOrderError.setText("");
+					this.plugin.settings.sortOrder = order;
+					await this.plugin.saveSettings();
+				})
+		);
+		new Setting(containerEl)
+			.setName("Folder Grouping")
+			.setDesc("Whether folders are listed before files, after files or mixed in with them. Can be overridden with the \"group\" property of a folder note.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption(SortGroup.FoldersFirst, "Folders first")
+					.addOption(SortGroup.FilesFirst, "Files first")
+					.addOption(SortGroup.Mixed, "Mixed")
+					.setValue(this.plugin.settings.sortGroup)
+					.onChange(async (value) => {
+						this.plugin.settings.sortGroup = value;
+						await this.plugin.saveSettings();
+					})
+			);
+		new Setting(containerEl)
+			.setName("Natural Sort")
+			.setDesc("If enabled, numbers within names are compared by value so that \"Chapter 2\" is listed before \"Chapter 10\".")
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.naturalSort).onChange(async (value) => {
+					this.plugin.settings.naturalSort = value;
+					await this.plugin.saveSettings();
+				})
+			);
 		new Setting(containerEl)
 			.setName("Use Spaces for Indentation")
 			.setDesc("If enabled, the waypoint list will be indented with spaces rather than with tabs.")
@@ -828,6 +1769,7 @@ class WaypointSettingsTab extends PluginSettingTab {
 							console.error("Error: Waypoint flag must be surrounded by double-percent signs.");
 						}
 						await this.plugin.saveSettings();
+						this.plugin.scheduleIndexRebuild();
 					})
 			);
 		new Setting(containerEl)
@@ -845,6 +1787,7 @@ class WaypointSettingsTab extends PluginSettingTab {
 							console.error("Error: Landmark flag must be surrounded by double-percent signs.");
 						}
 						await this.plugin.saveSettings();
+						this.plugin.scheduleIndexRebuild();
 					})
 			);
 		new Setting(containerEl)
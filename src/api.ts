@@ -0,0 +1,94 @@
+import type { TAbstractFile, TFile, TFolder } from "obsidian";
+import type { ExportTable } from "./export";
+import type { Formatter } from "./formatters";
+import type { WaypointType } from "./settings";
+
+export type { ExportRow, ExportTable, ExportValue } from "./export";
+export type { FormatContext, Formatter } from "./formatters";
+export { WaypointType } from "./settings";
+
+/**
+ * Triggered on the workspace before a waypoint (or landmark) type of a folder note is regenerated.
+ */
+export const BEFORE_UPDATE_EVENT = "waypoint:before-update";
+/**
+ * Triggered on the workspace after a waypoint (or landmark) type of a folder note was regenerated, following every
+ * BEFORE_UPDATE_EVENT even if the update failed or found nothing to update.
+ */
+export const AFTER_UPDATE_EVENT = "waypoint:after-update";
+
+export interface WaypointUpdateEvent {
+	// The folder note being updated
+	file: TFile;
+	type: WaypointType;
+}
+
+export interface WaypointUpdatedEvent extends WaypointUpdateEvent {
+	// Whether the content of the note changed
+	changed: boolean;
+	// The number of blocks that were not updated to keep manual edits
+	conflicts: number;
+}
+
+/**
+ * The waypoint or landmark listing a note or folder.
+ */
+export interface PointInfo {
+	type: WaypointType;
+	// The folder note containing the waypoint
+	note: TFile;
+	// The folder the waypoint lists
+	folder: TFolder;
+}
+
+/**
+ * The API of the plugin for other plugins and scripts, available as the "api" property of the plugin, e.g.
+ * `app.plugins.plugins["obsidian markdown dataview"].api`. Files and folders can be given as paths.
+ */
+export interface WaypointApi {
+	// Increased whenever the API changes in a way that breaks existing scripts
+	readonly version: number;
+
+	/**
+	 * Get the rows a waypoint of the given folder would list, with both the typed values and the displayed text of each column.
+	 * @param options The inline options of a waypoint, e.g. `sort:-date columns:status limit:10`
+	 * @throws Error if the folder does not exist or the options are invalid
+	 */
+	getRows(folder: TFolder | string, options?: string): Promise<ExportTable>;
+
+	/**
+	 * Find the waypoint (or landmark) listing the given note or folder. Folder notes are listed by the waypoint
+	 * above the folder they describe.
+	 * @param type Only look for this type of point, or for either if undefined
+	 * @returns The closest point, or null if none lists it or it does not exist
+	 */
+	getEnclosingPoint(file: TAbstractFile | string, type?: WaypointType): Promise<PointInfo | null>;
+
+	isFolderNote(file: TFile | string): boolean;
+
+	/**
+	 * Get the folder note of the given folder.
+	 * @returns The folder note, or null if the folder has none
+	 */
+	getFolderNote(folder: TFolder | string): TFile | null;
+
+	/**
+	 * Regenerate the waypoints and landmarks of a folder note now, or of every folder note in the vault if none is given.
+	 * @param overwrite Whether to replace blocks even if they were edited by hand
+	 * @throws Error if the note is not a folder note
+	 */
+	regenerate(file?: TFile | string, overwrite?: boolean): Promise<void>;
+
+	/**
+	 * Add a formatter (or replace an existing one) that columns can declare as their type, e.g. `price:currency`.
+	 * Formatters are kept until Obsidian restarts, so register them again whenever your plugin loads.
+	 */
+	registerFormatter(type: string, formatter: Formatter): void;
+}
+
+declare module "obsidian" {
+	interface Workspace {
+		on(name: typeof BEFORE_UPDATE_EVENT, callback: (event: WaypointUpdateEvent) => unknown, ctx?: unknown): EventRef;
+		on(name: typeof AFTER_UPDATE_EVENT, callback: (event: WaypointUpdatedEvent) => unknown, ctx?: unknown): EventRef;
+	}
+}
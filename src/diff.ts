@@ -0,0 +1,91 @@
+const CONTEXT_LINES = 3;
+
+interface DiffLine {
+	type: " " | "-" | "+";
+	text: string;
+}
+
+/**
+ * Compare two lists of lines by their longest common subsequence. Lines shared by the start and end of both lists
+ * are matched first, so that the small changes of a regenerated waypoint stay cheap to compare in long notes.
+ */
+function compareLines(before: string[], after: string[]): DiffLine[] {
+	let start = 0;
+	while (start < before.length && start < after.length && before[start] === after[start]) {
+		start++;
+	}
+	let end = 0;
+	while (end < before.length - start && end < after.length - start && before[before.length - 1 - end] === after[after.length - 1 - end]) {
+		end++;
+	}
+	const a = before.slice(start, before.length - end);
+	const b = after.slice(start, after.length - end);
+	// lengths[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+	const lengths = a.map(() => new Array<number>(b.length + 1).fill(0));
+	lengths.push(new Array<number>(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+	const lines: DiffLine[] = before.slice(0, start).map((text) => ({ type: " ", text }));
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			lines.push({ type: " ", text: a[i] });
+			i++;
+			j++;
+		} else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+			lines.push({ type: "-", text: a[i++] });
+		} else {
+			lines.push({ type: "+", text: b[j++] });
+		}
+	}
+	return lines.concat(before.slice(before.length - end).map((text): DiffLine => ({ type: " ", text })));
+}
+
+/**
+ * Describe the changes between two versions of a note as a unified diff, with a few lines of context around each change.
+ * @param path The path of the note, shown in the header of the diff
+ * @returns The diff, or "" if both versions are the same
+ */
+export function diffLines(path: string, before: string, after: string): string {
+	const lines = compareLines(before.split("\n"), after.split("\n"));
+	const out = [`--- a/${path}`, `+++ b/${path}`];
+	let index = 0;
+	let hunks = 0;
+	// The number of lines of each version before the current line, to number the hunks
+	let beforeLine = 0;
+	let afterLine = 0;
+	const counts = lines.map((line) => {
+		const position = [beforeLine, afterLine];
+		beforeLine += line.type === "+" ? 0 : 1;
+		afterLine += line.type === "-" ? 0 : 1;
+		return position;
+	});
+	while (index < lines.length) {
+		const change = lines.findIndex((line, i) => i >= index && line.type !== " ");
+		if (change === -1) {
+			break;
+		}
+		const hunkStart = Math.max(index, change - CONTEXT_LINES);
+		let hunkEnd = change;
+		// Extend the hunk while the next change is close enough to share its context
+		for (let i = change; i < lines.length && i <= hunkEnd + CONTEXT_LINES * 2; i++) {
+			if (lines[i].type !== " ") {
+				hunkEnd = i;
+			}
+		}
+		hunkEnd = Math.min(lines.length - 1, hunkEnd + CONTEXT_LINES);
+		const hunk = lines.slice(hunkStart, hunkEnd + 1);
+		const removed = hunk.filter((line) => line.type !== "+").length;
+		const added = hunk.filter((line) => line.type !== "-").length;
+		const [beforeStart, afterStart] = counts[hunkStart];
+		out.push(`@@ -${beforeStart + 1},${removed} +${afterStart + 1},${added} @@`);
+		out.push(...hunk.map((line) => line.type + line.text));
+		hunks++;
+		index = hunkEnd + 1;
+	}
+	return hunks === 0 ? "" : out.join("\n");
+}
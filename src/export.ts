@@ -0,0 +1,177 @@
+/**
+ * Serialization of the rows of a waypoint into files that can be shared outside of Obsidian.
+ */
+
+export enum ExportFormat {
+	Csv = "csv",
+	Json = "json",
+	Html = "html",
+}
+
+export type ExportValue = string | number | boolean | null | ExportValue[] | { [key: string]: ExportValue };
+
+export interface ExportRow {
+	// The path of the note or folder
+	path: string;
+	isFolder: boolean;
+	// How deep the row is nested below the listed folder, 0 for its direct children
+	depth: number;
+	// The typed value of each column, in the same order as ExportTable.columns
+	values: ExportValue[];
+	// The text of each column as shown in the waypoint, without its Markdown
+	texts: string[];
+}
+
+/**
+ * The rows and columns of a waypoint, as listed in its table.
+ */
+export interface ExportTable {
+	// The name of the listed folder
+	title: string;
+	// The keys of the columns, e.g. "TITLE" or "status"
+	columns: string[];
+	// The displayed names of the columns, in the language of the generated text
+	headers: string[];
+	rows: ExportRow[];
+}
+
+const HTML_STYLE = `body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ccc; padding: 0.3em 0.6em; text-align: left; vertical-align: top; }
+th { background: #f4f4f4; }`;
+
+/**
+ * Convert the value of a property into a value that can be written as JSON. Dates are written as ISO 8601 strings,
+ * except for dates that are already written as text, which are kept as they are.
+ * @param type The declared type of the column, or undefined to keep the value as it is
+ */
+export function toExportValue(value: unknown, type?: string): ExportValue {
+	if (value === undefined || value === null || value === "" || (typeof value === "number" && isNaN(value))) {
+		return null;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => toExportValue(item, type));
+	}
+	if (value instanceof Date) {
+		return isNaN(value.getTime()) ? null : value.toISOString();
+	}
+	switch (type) {
+		case "date":
+			if (typeof value === "number") {
+				return toExportValue(new Date(value));
+			}
+			return isNaN(new Date(String(value)).getTime()) ? String(value) : value as ExportValue;
+		case "number":
+		case "stars": {
+			const num = Number(value);
+			return typeof value === "boolean" || isNaN(num) ? String(value) : num;
+		}
+		case "checkbox":
+			return value === true || value === 1 || ["true", "yes", "x", "done", "1"].includes(String(value).trim().toLowerCase());
+	}
+	if (typeof value === "object") {
+		// Frontmatter objects are already plain JSON values
+		return value as ExportValue;
+	}
+	return value as ExportValue;
+}
+
+function escapeCsv(text: string): string {
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Write the displayed text of each row as CSV, with the displayed names of the columns as its header.
+ */
+export function renderCsv(table: ExportTable): string {
+	const lines = [table.headers, ...table.rows.map((row) => row.texts)].map((cells) => cells.map(escapeCsv).join(","));
+	// Spreadsheets only read the file as UTF-8 if it starts with a byte order mark
+	return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Write the typed values of each row as JSON, keyed by the keys of the columns.
+ */
+export function renderJson(table: ExportTable): string {
+	const data = {
+		folder: table.title,
+		columns: table.columns.map((key, i) => ({ key, header: table.headers[i] })),
+		rows: table.rows.map((row) => {
+			const values: { [key: string]: ExportValue } = {};
+			table.columns.forEach((key, i) => {
+				values[key] = row.values[i];
+			});
+			return { path: row.path, isFolder: row.isFolder, depth: row.depth, values };
+		})
+	};
+	return JSON.stringify(data, null, "\t") + "\n";
+}
+
+/**
+ * Write the displayed text of each row as a standalone HTML page holding a single table. Nested rows are indented
+ * and folders are shown in bold, like in the waypoint.
+ */
+export function renderHtml(table: ExportTable): string {
+	const title = escapeHtml(table.title);
+	const header = table.headers.map((text) => `<th>${escapeHtml(text)}</th>`).join("");
+	const titleIndex = table.columns.findIndex((key) => key.toLowerCase() === "title");
+	const rows = table.rows.map((row) => {
+		const cells = row.texts.map((text, i) => {
+			if (i !== titleIndex) {
+				return `<td>${escapeHtml(text)}</td>`;
+			}
+			const style = row.depth > 0 ? ` style="padding-left: ${row.depth * 1.5 + 0.6}em"` : "";
+			return `<td${style}>${row.isFolder ? `<strong>${escapeHtml(text)}</strong>` : escapeHtml(text)}</td>`;
+		});
+		return `<tr>${cells.join("")}</tr>`;
+	});
+	return [
+		"<!DOCTYPE html>",
+		"<html>",
+		"<head>",
+		"<meta charset=\"utf-8\">",
+		`<title>${title}</title>`,
+		`<style>\n${HTML_STYLE}\n</style>`,
+		"</head>",
+		"<body>",
+		`<h1>${title}</h1>`,
+		"<table>",
+		`<thead>\n<tr>${header}</tr>\n</thead>`,
+		`<tbody>\n${rows.join("\n")}\n</tbody>`,
+		"</table>",
+		"</body>",
+		"</html>",
+		""
+	].join("\n");
+}
+
+/**
+ * Write the rows of a waypoint in the given format.
+ */
+export function renderExport(table: ExportTable, format: ExportFormat): string {
+	switch (format) {
+		case ExportFormat.Csv:
+			return renderCsv(table);
+		case ExportFormat.Json:
+			return renderJson(table);
+		case ExportFormat.Html:
+			return renderHtml(table);
+	}
+}
+
+/**
+ * Get the path of the file a waypoint is exported to: next to its folder note, or at the same place within the export
+ * folder if one is set. Named waypoints add their name, so that every waypoint of a note has its own file.
+ * @param notePath The path of the folder note
+ * @param name The name of the waypoint, or "" if unnamed
+ * @param exportFolder The path of the export folder, or "" to export next to the folder note
+ */
+export function getExportPath(notePath: string, name: string, format: ExportFormat, exportFolder: string): string {
+	const base = notePath.replace(/\.md$/, "") + (name === "" ? "" : ` (${name})`) + "." + format;
+	const folder = exportFolder.trim().replace(/^\/+|\/+$/g, "");
+	return folder === "" ? base : `${folder}/${base}`;
+}
@@ -0,0 +1,258 @@
+import * as fs from "fs";
+import * as nodePath from "path";
+import { parseFrontmatter } from "./frontmatter";
+import { FileMetadata, isFile, Vault, VaultFile, VaultFolder, VaultNode } from "./vault";
+
+class FileSystemFile implements VaultFile {
+	name: string;
+	basename: string;
+	extension: string;
+
+	constructor(public path: string, public parent: FileSystemFolder, public stat: { ctime: number; mtime: number; size: number }) {
+		this.name = path.split("/").pop();
+		const dot = this.name.lastIndexOf(".");
+		this.basename = dot > 0 ? this.name.substring(0, dot) : this.name;
+		this.extension = dot > 0 ? this.name.substring(dot + 1) : "";
+	}
+}
+
+class FileSystemFolder implements VaultFolder {
+	name: string;
+	children: VaultNode[] = [];
+
+	constructor(public path: string, public parent: FileSystemFolder | null) {
+		this.name = parent === null ? "" : path.split("/").pop();
+	}
+
+	isRoot(): boolean {
+		return this.parent === null;
+	}
+}
+
+/**
+ * Remove the parts of a note that Obsidian does not index: its frontmatter, code blocks and inline code.
+ */
+function stripUnindexed(text: string): string {
+	return text
+		.replace(/^---\n[\s\S]*?\n---(\n|$)/, "")
+		.replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, "")
+		.replace(/`[^`\n]*`/g, "");
+}
+
+/**
+ * Parse the metadata of a note the way Obsidian's metadata cache does for the parts waypoints use.
+ * Embeds are not links, but they are resolved links.
+ * @returns The metadata, along with the targets of both its links and embeds
+ */
+function parseMetadata(text: string): { metadata: FileMetadata; targets: string[] } {
+	const normalized = text.replace(/\r\n/g, "\n");
+	const body = stripUnindexed(normalized);
+	const metadata: FileMetadata = { headings: [], listItems: [], links: [] };
+	const frontmatter = parseFrontmatter(normalized);
+	if (frontmatter !== null) {
+		metadata.frontmatter = frontmatter;
+	}
+	for (const line of body.split("\n")) {
+		const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+		if (heading !== null) {
+			metadata.headings.push({ heading: heading[2], level: heading[1].length });
+		}
+		const task = line.match(/^\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[(.)\]/);
+		if (task !== null) {
+			metadata.listItems.push({ task: task[1] });
+		}
+	}
+	const targets: string[] = [];
+	for (const match of body.match(/!?\[\[[^\]]+\]\]/g) ?? []) {
+		const target = match.replace(/^!?\[\[/, "").replace(/\]\]$/, "").split("|")[0].trim();
+		targets.push(target);
+		if (!match.startsWith("!")) {
+			metadata.links.push({ link: target });
+		}
+	}
+	for (const match of body.match(/!?\[[^\]\n]*\]\(([^)\s]+)(\s+"[^"]*")?\)/g) ?? []) {
+		const target = match.replace(/^!?\[[^\]\n]*\]\(/, "").replace(/(\s+"[^"]*")?\)$/, "");
+		if (/^[a-z][a-z0-9+.-]*:/i.test(target)) {
+			// Links to websites and other apps
+			continue;
+		}
+		let decoded = target;
+		try {
+			decoded = decodeURIComponent(target);
+		} catch (e) {
+			// Keep targets that are not encoded as they are
+		}
+		targets.push(decoded);
+		if (!match.startsWith("!")) {
+			metadata.links.push({ link: decoded });
+		}
+	}
+	return { metadata, targets };
+}
+
+/**
+ * A vault read from a folder on disk, for generating waypoints outside of Obsidian. Like Obsidian, files and folders
+ * whose name starts with a dot (such as the ".obsidian" settings folder) are not part of the vault.
+ */
+export class FileSystemVault implements Vault {
+	private root: FileSystemFolder;
+	private nodes = new Map<string, VaultNode>();
+	// The files with each name in lower case, to resolve links by the end of their path
+	private filesByName = new Map<string, VaultFile[]>();
+	private contents = new Map<string, string>();
+	private metadata = new Map<string, FileMetadata>();
+	private resolvedLinks: Record<string, Record<string, number>> = {};
+	private linkFormat = "shortest";
+
+	private constructor(private directory: string, private fileTimes: boolean) {}
+
+	/**
+	 * Read every file and folder of the vault in the given directory, and the content and metadata of every note.
+	 * @param fileTimes Whether to read when files were created and modified, or leave it unknown (NaN) so that
+	 * the generated waypoints don't depend on the copy of the vault, e.g. in a git checkout
+	 */
+	static async load(directory: string, fileTimes = true): Promise<FileSystemVault> {
+		const vault = new FileSystemVault(nodePath.resolve(directory), fileTimes);
+		vault.root = new FileSystemFolder("/", null);
+		vault.nodes.set("/", vault.root);
+		await vault.loadFolder(vault.root);
+		try {
+			const config = JSON.parse(await fs.promises.readFile(nodePath.join(vault.directory, ".obsidian", "app.json"), "utf8"));
+			vault.linkFormat = typeof config.newLinkFormat === "string" ? config.newLinkFormat : vault.linkFormat;
+		} catch (e) {
+			// Vaults that were never opened in Obsidian (or kept its defaults) have no settings
+		}
+		const targets = new Map<string, string[]>();
+		for (const [path, text] of vault.contents) {
+			const parsed = parseMetadata(text);
+			vault.metadata.set(path, parsed.metadata);
+			targets.set(path, parsed.targets);
+		}
+		for (const [path, links] of targets) {
+			const resolved: Record<string, number> = {};
+			for (const link of links) {
+				const file = vault.getFirstLinkpathDest(link.split("#")[0], path);
+				if (file !== null) {
+					resolved[file.path] = (resolved[file.path] ?? 0) + 1;
+				}
+			}
+			vault.resolvedLinks[path] = resolved;
+		}
+		return vault;
+	}
+
+	private async loadFolder(folder: FileSystemFolder) {
+		const entries = await fs.promises.readdir(this.getFullPath(folder.path), { withFileTypes: true });
+		for (const entry of entries) {
+			if (entry.name.startsWith(".")) {
+				continue;
+			}
+			const path = folder.isRoot() ? entry.name : `${folder.path}/${entry.name}`;
+			if (entry.isDirectory()) {
+				const child = new FileSystemFolder(path, folder);
+				folder.children.push(child);
+				this.nodes.set(path, child);
+				await this.loadFolder(child);
+			} else if (entry.isFile()) {
+				const stat = await fs.promises.stat(this.getFullPath(path));
+				const child = new FileSystemFile(path, folder, {
+					// Not every file system records when a file was created
+					ctime: this.fileTimes ? Math.round(stat.birthtimeMs || stat.ctimeMs) : NaN,
+					mtime: this.fileTimes ? Math.round(stat.mtimeMs) : NaN,
+					size: stat.size
+				});
+				folder.children.push(child);
+				this.nodes.set(path, child);
+				const name = child.name.toLowerCase();
+				if (!this.filesByName.has(name)) {
+					this.filesByName.set(name, []);
+				}
+				this.filesByName.get(name).push(child);
+				if (child.extension === "md") {
+					this.contents.set(path, await fs.promises.readFile(this.getFullPath(path), "utf8"));
+				}
+			}
+		}
+	}
+
+	private getFullPath(path: string): string {
+		return path === "/" ? this.directory : nodePath.join(this.directory, ...path.split("/"));
+	}
+
+	getRoot(): VaultFolder {
+		return this.root;
+	}
+
+	getNode(path: string): VaultNode | null {
+		return this.nodes.get(path) ?? null;
+	}
+
+	async read(file: VaultFile): Promise<string> {
+		return this.contents.get(file.path) ?? await fs.promises.readFile(this.getFullPath(file.path), "utf8");
+	}
+
+	/**
+	 * Write a note to disk. Its metadata is left as it was read, like the metadata cache until it catches up.
+	 */
+	async write(file: VaultFile, text: string) {
+		await fs.promises.writeFile(this.getFullPath(file.path), text, "utf8");
+		this.contents.set(file.path, text);
+	}
+
+	getMetadata(file: VaultFile): FileMetadata | null {
+		return this.metadata.get(file.path) ?? null;
+	}
+
+	getResolvedLinks(): Record<string, Record<string, number>> {
+		return this.resolvedLinks;
+	}
+
+	/**
+	 * Get the shortest text that links to the given file from the given note: its name if that is enough to find it,
+	 * otherwise its full path.
+	 */
+	getLinkText(file: VaultFile, sourcePath: string): string {
+		const name = file.extension === "md" ? file.basename : file.name;
+		if (this.getFirstLinkpathDest(name, sourcePath) === file) {
+			return name;
+		}
+		return file.extension === "md" ? file.path.replace(/\.md$/, "") : file.path;
+	}
+
+	/**
+	 * Get the link format from the settings of Obsidian in the vault, "shortest" by default.
+	 */
+	getLinkFormat(): string {
+		return this.linkFormat;
+	}
+
+	/**
+	 * Find the file a link points to, like Obsidian: a file at the given path (relative to the vault or to the note),
+	 * otherwise the file whose path ends with it, preferring one in the folder of the note.
+	 * @param linkpath The target of the link without its heading or block reference
+	 * @param sourcePath The path of the note containing the link
+	 */
+	getFirstLinkpathDest(linkpath: string, sourcePath: string): VaultFile | null {
+		const target = linkpath.trim().replace(/^\//, "");
+		if (target === "") {
+			return null;
+		}
+		const sourceFolder = sourcePath.split("/").slice(0, -1).join("/");
+		const relative = nodePath.posix.normalize(sourceFolder === "" ? target : `${sourceFolder}/${target}`);
+		for (const path of [target, target + ".md", relative, relative + ".md"]) {
+			const node = this.nodes.get(path);
+			if (isFile(node)) {
+				return node;
+			}
+		}
+		const lower = target.toLowerCase();
+		const name = lower.split("/").pop();
+		const matches = [...(this.filesByName.get(name) ?? []), ...(this.filesByName.get(name + ".md") ?? [])]
+			.filter((file) => {
+				const path = file.path.toLowerCase();
+				return [lower, lower + ".md"].some((end) => path === end || path.endsWith("/" + end));
+			})
+			.sort((a, b) => a.path.split("/").length - b.path.split("/").length || a.path.localeCompare(b.path));
+		return matches.find((file) => file.parent?.path === (sourceFolder === "" ? "/" : sourceFolder)) ?? matches[0] ?? null;
+	}
+}
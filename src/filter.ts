@@ -0,0 +1,258 @@
+/**
+ * A small filter language for choosing which notes are listed in a waypoint, e.g.
+ * `status != "archived" and (tags contains "project" or date >= "2024-01-01")`.
+ */
+
+import { ErrorMessages, getLocale } from "./locales";
+
+type Literal = string | number | boolean;
+
+export type Operator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "contains";
+
+export type FilterExpression =
+	| { type: "and" | "or"; left: FilterExpression; right: FilterExpression }
+	| { type: "not"; operand: FilterExpression }
+	| { type: "compare"; field: string; operator: Operator; value: Literal }
+	// A field on its own checks that the property is set and not false or empty
+	| { type: "exists"; field: string };
+
+interface Token {
+	kind: "word" | "string" | "number" | "operator" | "paren";
+	text: string;
+	position: number;
+}
+
+const OPERATORS = ["==", "!=", "<=", ">=", "=", "<", ">"];
+const KEYWORDS = ["and", "or", "not", "contains", "true", "false"];
+
+function tokenize(source: string, errors: ErrorMessages): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < source.length) {
+		const char = source[i];
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+		if (char === "(" || char === ")") {
+			tokens.push({ kind: "paren", text: char, position: i });
+			i++;
+			continue;
+		}
+		if (char === "\"" || char === "'") {
+			const end = source.indexOf(char, i + 1);
+			if (end === -1) {
+				throw new Error(errors.unterminatedString(i + 1));
+			}
+			tokens.push({ kind: "string", text: source.substring(i + 1, end), position: i });
+			i = end + 1;
+			continue;
+		}
+		const operator = OPERATORS.find((op) => source.startsWith(op, i));
+		if (operator !== undefined) {
+			tokens.push({ kind: "operator", text: operator === "==" ? "=" : operator, position: i });
+			i += operator.length;
+			continue;
+		}
+		const number = source.substring(i).match(/^-?\d+(\.\d+)?(?![\w-])/);
+		if (number) {
+			tokens.push({ kind: "number", text: number[0], position: i });
+			i += number[0].length;
+			continue;
+		}
+		const word = source.substring(i).match(/^[^\s()"'=!<>]+/);
+		if (word) {
+			tokens.push({ kind: "word", text: word[0], position: i });
+			i += word[0].length;
+			continue;
+		}
+		throw new Error(errors.unexpected(char, i + 1));
+	}
+	return tokens;
+}
+
+class Parser {
+	private index = 0;
+
+	constructor(private tokens: Token[], private errors: ErrorMessages) {}
+
+	parse(): FilterExpression {
+		if (this.tokens.length === 0) {
+			throw new Error(this.errors.emptyFilter);
+		}
+		const expression = this.parseOr();
+		const next = this.peek();
+		if (next) {
+			throw new Error(this.errors.unexpected(next.text, next.position + 1));
+		}
+		return expression;
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.index];
+	}
+
+	private isKeyword(keyword: string): boolean {
+		const token = this.peek();
+		return token?.kind === "word" && token.text.toLowerCase() === keyword;
+	}
+
+	private parseOr(): FilterExpression {
+		let left = this.parseAnd();
+		while (this.isKeyword("or")) {
+			this.index++;
+			left = { type: "or", left, right: this.parseAnd() };
+		}
+		return left;
+	}
+
+	private parseAnd(): FilterExpression {
+		let left = this.parseNot();
+		while (this.isKeyword("and")) {
+			this.index++;
+			left = { type: "and", left, right: this.parseNot() };
+		}
+		return left;
+	}
+
+	private parseNot(): FilterExpression {
+		if (this.isKeyword("not")) {
+			this.index++;
+			return { type: "not", operand: this.parseNot() };
+		}
+		return this.parsePrimary();
+	}
+
+	private parsePrimary(): FilterExpression {
+		const token = this.peek();
+		if (token === undefined) {
+			const last = this.tokens[this.tokens.length - 1];
+			throw new Error(this.errors.expectedCondition(last.text, last.position + 1));
+		}
+		if (token.kind === "paren" && token.text === "(") {
+			this.index++;
+			const expression = this.parseOr();
+			const closing = this.peek();
+			if (closing?.kind !== "paren" || closing.text !== ")") {
+				throw new Error(this.errors.missingParenthesis(token.position + 1));
+			}
+			this.index++;
+			return expression;
+		}
+		if (token.kind !== "word" || KEYWORDS.includes(token.text.toLowerCase())) {
+			throw new Error(this.errors.expectedProperty(token.text, token.position + 1));
+		}
+		this.index++;
+		const field = token.text;
+		const next = this.peek();
+		let operator: Operator;
+		if (next?.kind === "operator") {
+			operator = next.text as Operator;
+		} else if (this.isKeyword("contains")) {
+			operator = "contains";
+		} else {
+			return { type: "exists", field };
+		}
+		this.index++;
+		return { type: "compare", field, operator, value: this.parseLiteral(next) };
+	}
+
+	private parseLiteral(operator: Token): Literal {
+		const token = this.peek();
+		if (token === undefined) {
+			throw new Error(this.errors.expectedValue(operator.text, operator.position + 1));
+		}
+		this.index++;
+		switch (token.kind) {
+			case "string":
+				return token.text;
+			case "number":
+				return parseFloat(token.text);
+			case "word":
+				if (token.text.toLowerCase() === "true") return true;
+				if (token.text.toLowerCase() === "false") return false;
+				// Unquoted words are treated as text so that `status = done` works as expected
+				if (!KEYWORDS.includes(token.text.toLowerCase())) return token.text;
+		}
+		throw new Error(this.errors.unexpectedValue(token.text, token.position + 1));
+	}
+}
+
+/**
+ * Parse a filter expression.
+ * @param errors The messages of the language errors are written in, English by default
+ * @throws Error describing the problem and its position if the expression is invalid
+ */
+export function parseFilter(source: string, errors: ErrorMessages = getLocale("en").errors): FilterExpression {
+	return new Parser(tokenize(source, errors), errors).parse();
+}
+
+function isEmpty(value: unknown): boolean {
+	return value === undefined || value === null || value === "" || value === false || (Array.isArray(value) && value.length === 0);
+}
+
+function normalizeText(value: unknown): string {
+	return String(value).replace(/^#/, "").toLowerCase();
+}
+
+function compare(actual: unknown, operator: Operator, expected: Literal): boolean {
+	if (Array.isArray(actual)) {
+		// Lists match if any of their items match, except for "!=" which requires that none do
+		if (operator === "!=") {
+			return !actual.some((item) => compare(item, "=", expected));
+		}
+		if (operator === "contains") {
+			return actual.some((item) => compare(item, "=", expected) || compare(item, "contains", expected));
+		}
+		return actual.some((item) => compare(item, operator, expected));
+	}
+	if (actual === undefined || actual === null) {
+		return operator === "!=";
+	}
+	if (operator === "contains") {
+		return normalizeText(actual).includes(normalizeText(expected));
+	}
+	let left: string | number;
+	let right: string | number;
+	if (actual instanceof Date) {
+		left = actual.getTime();
+		right = new Date(typeof expected === "boolean" ? NaN : expected).getTime();
+		if (isNaN(left) || isNaN(right)) {
+			return operator === "!=";
+		}
+	} else if (typeof expected === "number" && String(actual).trim() !== "" && !isNaN(Number(actual))) {
+		[left, right] = [Number(actual), expected];
+	} else {
+		[left, right] = [normalizeText(actual), normalizeText(expected)];
+	}
+	switch (operator) {
+		case "=": return left === right;
+		case "!=": return left !== right;
+		case "<": return left < right;
+		case "<=": return left <= right;
+		case ">": return left > right;
+		case ">=": return left >= right;
+	}
+}
+
+/**
+ * Evaluate a parsed filter for a single note.
+ * Text is compared case-insensitively, tags match with or without their leading "#", and dates
+ * (returned as Date objects by the resolver) are compared with any date text such as "2024-01-01".
+ * @param expression The parsed filter
+ * @param resolve Get the value of a property of the note, or undefined if it is not set
+ */
+export function evaluateFilter(expression: FilterExpression, resolve: (field: string) => unknown): boolean {
+	switch (expression.type) {
+		case "and":
+			return evaluateFilter(expression.left, resolve) && evaluateFilter(expression.right, resolve);
+		case "or":
+			return evaluateFilter(expression.left, resolve) || evaluateFilter(expression.right, resolve);
+		case "not":
+			return !evaluateFilter(expression.operand, resolve);
+		case "exists":
+			return !isEmpty(resolve(expression.field));
+		case "compare":
+			return compare(resolve(expression.field), expression.operator, expression.value);
+	}
+}
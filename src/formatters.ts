@@ -0,0 +1,152 @@
+import { ErrorMessages, getLocale } from "./locales";
+import { escapeText } from "./markdown";
+
+/**
+ * A column of a waypoint table, declared as `key`, `key:type` or `key:type:format`, e.g. `due:date` or `due:date:relative`.
+ */
+export interface Column {
+	key: string;
+	// The name of the formatter, or undefined to pick one from the value
+	type?: string;
+	// Passed on to the formatter, e.g. the date format of a date column
+	format?: string;
+}
+
+export interface FormatContext {
+	// The key of the column being formatted
+	key: string;
+	// The format declared for the column, if any
+	format?: string;
+	// Format a date with a moment-style format or "relative", by default the same way as the DATE column
+	formatDate: (date: Date, format?: string) => string;
+}
+
+/**
+ * Turns the value of a property into the Markdown shown in a table cell. Empty values are handled before formatters are called.
+ */
+export type Formatter = (value: unknown, context: FormatContext) => string;
+
+const MAX_STARS = 5;
+
+function isEmpty(value: unknown): boolean {
+	return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function formatNumber(value: unknown): string {
+	const num = typeof value === "number" ? value : Number(value);
+	if (typeof value === "boolean" || isNaN(num)) {
+		return escapeText(String(value));
+	}
+	return String(Math.round(num * 100) / 100);
+}
+
+function formatDate(value: unknown, context: FormatContext): string {
+	const date = value instanceof Date ? value : new Date(String(value));
+	return isNaN(date.getTime()) ? escapeText(String(value)) : context.formatDate(date, context.format);
+}
+
+function formatCheckbox(value: unknown): string {
+	const checked = value === true || value === 1 || ["true", "yes", "x", "done", "1"].includes(String(value).trim().toLowerCase());
+	return checked ? "☑" : "☐";
+}
+
+function formatLink(value: unknown): string {
+	const text = String(value).trim();
+	if (/^!?\[\[.*\]\]$/.test(text) || /^\[.*\]\(.*\)$/.test(text)) {
+		return text;
+	}
+	const url = text.match(/^https?:\/\/([^/?#]+)/);
+	if (url !== null) {
+		return `[${url[1]}](${text})`;
+	}
+	return `[[${text.replace(/[|[\]#^]/g, "")}]]`;
+}
+
+function formatStars(value: unknown): string {
+	const num = Math.round(Number(value));
+	if (isNaN(num)) {
+		return escapeText(String(value));
+	}
+	const stars = Math.max(0, Math.min(MAX_STARS, num));
+	return "★".repeat(stars) + "☆".repeat(MAX_STARS - stars);
+}
+
+/**
+ * Format a value according to its own type, used for columns without a declared type.
+ */
+function formatAuto(value: unknown, context: FormatContext): string {
+	if (typeof value === "boolean") {
+		return formatCheckbox(value);
+	}
+	if (typeof value === "number") {
+		return formatNumber(value);
+	}
+	if (value instanceof Date) {
+		return formatDate(value, context);
+	}
+	if (typeof value === "object") {
+		return escapeText(JSON.stringify(value));
+	}
+	return escapeText(String(value));
+}
+
+/**
+ * Apply a formatter to each item of a list, and to single values as they are.
+ */
+function eachItem(formatter: Formatter): Formatter {
+	return (value, context) => {
+		const items = Array.isArray(value) ? value : [value];
+		return items.filter((item) => !isEmpty(item)).map((item) => formatter(item, context)).join(", ");
+	};
+}
+
+const formatters = new Map<string, Formatter>([
+	["text", eachItem(formatAuto)],
+	["list", eachItem(formatAuto)],
+	["link", eachItem(formatLink)],
+	["date", eachItem(formatDate)],
+	["number", eachItem(formatNumber)],
+	["checkbox", eachItem(formatCheckbox)],
+	["stars", eachItem(formatStars)],
+]);
+
+/**
+ * Parse the declaration of a column, e.g. `status`, `due:date` or `due:date:DD.MM.YYYY`.
+ * Everything after the type is the format, so it may contain colons itself.
+ * @param errors The messages of the language errors are written in, English by default
+ * @throws Error if the declared type has no formatter
+ */
+export function parseColumn(spec: string, errors: ErrorMessages = getLocale("en").errors): Column {
+	const separator = spec.indexOf(":");
+	if (separator <= 0) {
+		return { key: spec.trim() };
+	}
+	const key = spec.substring(0, separator).trim();
+	const rest = spec.substring(separator + 1);
+	const formatSeparator = rest.indexOf(":");
+	const type = (formatSeparator === -1 ? rest : rest.substring(0, formatSeparator)).trim().toLowerCase();
+	if (!formatters.has(type)) {
+		throw new Error(errors.unknownColumnType(type, key, [...formatters.keys()]));
+	}
+	const format = formatSeparator === -1 ? "" : rest.substring(formatSeparator + 1).trim();
+	return format === "" ? { key, type } : { key, type, format };
+}
+
+/**
+ * Format the value of a property for a table cell with the formatter of the given type.
+ * Missing and empty values are always shown as an empty cell.
+ * @param type The declared type of the column, or undefined to format the value according to its own type
+ */
+export function formatValue(value: unknown, type: string | undefined, context: FormatContext): string {
+	if (isEmpty(value)) {
+		return "";
+	}
+	return (formatters.get(type ?? "text") ?? formatters.get("text"))(value, context);
+}
+
+/**
+ * Add a formatter (or replace an existing one) so that it can be declared as the type of a column.
+ */
+export function registerFormatter(type: string, formatter: Formatter) {
+	formatters.set(type.toLowerCase(), formatter);
+}
@@ -0,0 +1,253 @@
+export type FrontmatterValue = string | number | boolean | string[] | null;
+
+const RESERVED_WORDS = ["true", "false", "yes", "no", "on", "off", "null", "~"];
+
+/**
+ * Format a single value as YAML, quoting text that would otherwise be read as something else.
+ */
+function formatScalar(value: string | number | boolean): string {
+	if (typeof value !== "string") {
+		return String(value);
+	}
+	const needsQuotes =
+		value === "" ||
+		value !== value.trim() ||
+		RESERVED_WORDS.includes(value.toLowerCase()) ||
+		/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+		/:\s|\s#|[\n"]/.test(value) ||
+		value.endsWith(":");
+	return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/**
+ * Format a value of a frontmatter property as YAML. Lists are written inline, e.g. `[a, b]`.
+ */
+export function formatYamlValue(value: FrontmatterValue): string {
+	if (value === null) {
+		return "";
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(formatScalar).join(", ")}]`;
+	}
+	return formatScalar(value);
+}
+
+/**
+ * Set a property in the frontmatter of a note, replacing its current value (including values spread over several lines)
+ * and adding the frontmatter if the note has none. Everything else in the note is left as it is.
+ * @param text The content of the note
+ * @param key The property to set
+ * @param value The new value, or null to leave the property empty
+ * @returns The updated content of the note
+ */
+export function setFrontmatterValue(text: string, key: string, value: FrontmatterValue): string {
+	const line = `${key}:${value === null ? "" : " " + formatYamlValue(value)}`;
+	const lines = text.split("\n");
+	const end = lines[0]?.trimEnd() === "---" ? lines.findIndex((l, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(l)) : -1;
+	if (end === -1) {
+		return `---\n${line}\n---\n${text}`;
+	}
+	const keyRegex = new RegExp(`^${key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*:`);
+	const start = lines.findIndex((l, i) => i > 0 && i < end && keyRegex.test(l));
+	if (start === -1) {
+		lines.splice(end, 0, line);
+		return lines.join("\n");
+	}
+	// Values continue on the following lines while they are indented or list items
+	let next = start + 1;
+	while (next < end && /^(\s+\S|\s*-\s|\s*-$)/.test(lines[next])) {
+		next++;
+	}
+	lines.splice(start, next - start, line);
+	return lines.join("\n");
+}
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+function indentOf(line: string): number {
+	return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string): boolean {
+	return line.trim() === "" || line.trimStart().startsWith("#");
+}
+
+function nextLine(lines: string[], start: number): number {
+	let i = start;
+	while (i < lines.length && isBlank(lines[i])) {
+		i++;
+	}
+	return i;
+}
+
+/**
+ * Split the items of an inline list or the entries of an inline map, ignoring commas within quotes and brackets.
+ */
+function splitFlow(text: string): string[] {
+	const items: string[] = [];
+	let depth = 0;
+	let quote: string | null = null;
+	let current = "";
+	for (const char of text) {
+		if (quote !== null) {
+			quote = char === quote ? null : quote;
+		} else if (char === "\"" || char === "'") {
+			quote = char;
+		} else if (char === "[" || char === "{") {
+			depth++;
+		} else if (char === "]" || char === "}") {
+			depth--;
+		} else if (char === "," && depth === 0) {
+			items.push(current.trim());
+			current = "";
+			continue;
+		}
+		current += char;
+	}
+	if (current.trim() !== "") {
+		items.push(current.trim());
+	}
+	return items;
+}
+
+/**
+ * Parse a value written on a single line: quoted text, an inline list or map, a number, true/false, null or plain text.
+ */
+function parseScalar(raw: string): YamlValue {
+	let text = raw.trim();
+	if (text.startsWith("\"")) {
+		try {
+			return JSON.parse(text.substring(0, text.lastIndexOf("\"") + 1));
+		} catch (e) {
+			return text.replace(/^"|"$/g, "");
+		}
+	}
+	if (text.startsWith("'")) {
+		return text.substring(1, text.lastIndexOf("'") > 0 ? text.lastIndexOf("'") : text.length).replace(/''/g, "'");
+	}
+	if (text.startsWith("[") && text.endsWith("]")) {
+		return splitFlow(text.slice(1, -1)).map(parseScalar);
+	}
+	if (text.startsWith("{") && text.endsWith("}")) {
+		const map: { [key: string]: YamlValue } = {};
+		for (const entry of splitFlow(text.slice(1, -1))) {
+			const separator = entry.indexOf(":");
+			if (separator > 0) {
+				map[String(parseScalar(entry.substring(0, separator)))] = parseScalar(entry.substring(separator + 1));
+			}
+		}
+		return map;
+	}
+	text = text.replace(/\s+#.*$/, "");
+	if (text === "" || text === "~" || /^(null|Null|NULL)$/.test(text)) {
+		return null;
+	}
+	if (/^(true|True|TRUE|false|False|FALSE)$/.test(text)) {
+		return text.toLowerCase() === "true";
+	}
+	if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text) || /^0x[0-9a-fA-F]+$/.test(text)) {
+		return Number(text);
+	}
+	return text;
+}
+
+/**
+ * Parse the text of a block scalar (`|` or `>`), made of the lines indented below its key.
+ * @returns The text and the index of the line following it
+ */
+function parseBlockScalar(style: string, lines: string[], start: number, parentIndent: number): [string, number] {
+	let end = start;
+	while (end < lines.length && (lines[end].trim() === "" || indentOf(lines[end]) > parentIndent)) {
+		end++;
+	}
+	const block = lines.slice(start, end);
+	const indent = Math.min(...block.filter((line) => line.trim() !== "").map(indentOf));
+	const content = block.map((line) => line.substring(indent));
+	let text = style.startsWith(">")
+		? content.join("\n").replace(/([^\n])\n(?=[^\n])/g, "$1 ")
+		: content.join("\n");
+	if (style.endsWith("-")) {
+		text = text.replace(/\n+$/, "");
+	} else if (!style.endsWith("+")) {
+		text = text.replace(/\n*$/, "\n");
+	}
+	return [text, end];
+}
+
+/**
+ * Parse the value of a key (or list item) that starts with the given text on its own line and may continue on the
+ * following lines when they are indented further.
+ * @returns The value and the index of the line following it
+ */
+function parseValue(rest: string, lines: string[], start: number, parentIndent: number): [YamlValue, number] {
+	if (/^[|>][-+]?$/.test(rest)) {
+		return parseBlockScalar(rest, lines, start, parentIndent);
+	}
+	if (rest !== "" && !rest.startsWith("#")) {
+		return [parseScalar(rest), start];
+	}
+	const next = nextLine(lines, start);
+	if (next >= lines.length) {
+		return [null, next];
+	}
+	const indent = indentOf(lines[next]);
+	const isListItem = /^-(\s|$)/.test(lines[next].trimStart());
+	// Lists may be written at the same indentation as their key
+	if (indent > parentIndent || (indent === parentIndent && isListItem)) {
+		return isListItem ? parseList(lines, next, indent) : parseMap(lines, next, indent);
+	}
+	return [null, start];
+}
+
+function parseList(lines: string[], start: number, indent: number): [YamlValue[], number] {
+	const list: YamlValue[] = [];
+	let i = nextLine(lines, start);
+	while (i < lines.length && indentOf(lines[i]) === indent && /^-(\s|$)/.test(lines[i].trimStart())) {
+		const content = lines[i].trimStart().substring(1).trim();
+		if (/^("[^"]*"|'[^']*'|[^\s"'[{#][^:#]*?)\s*:(\s|$)/.test(content)) {
+			// A map within the list, whose first key is on the same line as the dash
+			const itemIndent = indent + lines[i].trimStart().indexOf(content);
+			const [map, next] = parseMap([...lines.slice(0, i), " ".repeat(itemIndent) + content, ...lines.slice(i + 1)], i, itemIndent);
+			list.push(map);
+			i = next;
+		} else {
+			const [value, next] = parseValue(content, lines, i + 1, indent);
+			list.push(value);
+			i = next;
+		}
+		i = nextLine(lines, i);
+	}
+	return [list, i];
+}
+
+function parseMap(lines: string[], start: number, indent: number): [{ [key: string]: YamlValue }, number] {
+	const map: { [key: string]: YamlValue } = {};
+	let i = nextLine(lines, start);
+	while (i < lines.length && indentOf(lines[i]) >= indent) {
+		// Lines indented further that no key claimed, e.g. plain text continued on the next line, are skipped
+		const match = indentOf(lines[i]) === indent ? lines[i].trimStart().match(/^("[^"]*"|'[^']*'|[^\s"'#][^:]*?)\s*:(?:\s+(.*))?$/) : null;
+		if (match === null) {
+			i = nextLine(lines, i + 1);
+			continue;
+		}
+		const key = String(parseScalar(match[1]));
+		const [value, next] = parseValue((match[2] ?? "").trim(), lines, i + 1, indent);
+		map[key] = value;
+		i = nextLine(lines, next);
+	}
+	return [map, i];
+}
+
+/**
+ * Parse the frontmatter of a note for use outside of Obsidian. Only the parts of YAML common in frontmatter are
+ * supported: nested maps and lists, inline lists and maps, quoted text and block text. Like in Obsidian, dates are kept as text.
+ * @returns The properties, or null if the note has no frontmatter
+ */
+export function parseFrontmatter(text: string): { [key: string]: YamlValue } | null {
+	const lines = text.split(/\r?\n/);
+	const end = lines[0]?.trimEnd() === "---" ? lines.findIndex((l, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(l)) : -1;
+	if (end === -1) {
+		return null;
+	}
+	return parseMap(lines.slice(1, end), 0, 0)[0];
+}
@@ -0,0 +1,1383 @@
+import type * as Moment from "moment";
+import { evaluateFilter, FilterExpression, parseFilter } from "./filter";
+import { Column, formatValue, parseColumn } from "./formatters";
+import { ExportTable, ExportValue, toExportValue } from "./export";
+import { hashContent } from "./hash";
+import { Aggregate, computeAggregate, getGroupLabels, GroupBy, groupItems, parseAggregates, parseGroupBy } from "./grouping";
+import { getLayout, getLayoutNames, renderLayout, WaypointGroup, WaypointModel, WaypointRow } from "./layouts";
+import { formatErrorComment, formatRelativeDate, getLocale, Locale, localizeDateFormat, parseErrorComment } from "./locales";
+import { encodeLinkPath, getRelativePath, markdownLink, markdownToText, wikiLink } from "./markdown";
+import { FolderNoteType, RenderMode, WaypointSettings, WaypointType } from "./settings";
+import { createComparator, parseSortGroup, parseSortOrder, SortGroup, SortKey } from "./sort";
+import { FileMetadata, isFile, isFolder, Vault, VaultFile, VaultFolder, VaultNode } from "./vault";
+
+/**
+ * Options written inline after the flag keyword, e.g. `%% Waypoint sort:-date limit:20 %%`.
+ */
+export interface WaypointOptions {
+	sort?: SortKey[];
+	group?: SortGroup;
+	columns?: string[];
+	limit?: number;
+	depth?: number;
+	mode?: RenderMode;
+	layout?: string;
+	filter?: FilterExpression;
+	groupBy?: GroupBy;
+	aggregate?: Aggregate[];
+}
+
+/**
+ * How the children of each folder in a waypoint are filtered, sorted and linked to.
+ */
+interface Listing {
+	// The path of the note the waypoint is written in, which links are relative to
+	sourcePath: string;
+	folderNote: VaultFile | null;
+	frontmatter: FileMetadata["frontmatter"];
+	filter: FilterExpression | null;
+	compare: (a: VaultNode, b: VaultNode) => number;
+}
+
+/**
+ * A child listed in a waypoint, along with how deep it is nested below the listed folder.
+ */
+interface ListedNode {
+	node: VaultNode;
+	depth: number;
+}
+
+/**
+ * Location of a waypoint within the lines of its folder note.
+ */
+export interface WaypointBlock {
+	start: number;
+	// -1 if the end marker could not be found
+	end: number;
+	isCallout: boolean;
+	// Whether the block is still just the flag (i.e. the waypoint has never been generated)
+	initial: boolean;
+	// The name of the waypoint, e.g. "drafts" for `%% Waypoint:drafts %%`, or "" if unnamed
+	name: string;
+	rawOptions: string;
+	// The hash of the content generated by the last update, kept in the end marker, or null for blocks generated before hashes were kept
+	hash: string | null;
+}
+
+/**
+ * The state of a waypoint or landmark, or of an error written in place of one.
+ */
+export interface PointReport {
+	// null for an error written in place of a flag, as the type of the flag is no longer known
+	type: WaypointType | null;
+	notePath: string;
+	// The path of the listed folder, or null if the note is not a folder note
+	folderPath: string | null;
+	name: string;
+	// The line of the flag, begin marker or error
+	line: number;
+	// The number of rows listed, or null if they could not be counted
+	rows: number | null;
+	problems: string[];
+}
+
+/**
+ * Columns computed from the file itself rather than its frontmatter, usable in "keys" and "columns" as well as for sorting and filtering.
+ */
+export const COMPUTED_COLUMNS = ["mtime", "size", "words", "backlinks", "outlinks", "tasks", "headings", "extension", "folder"];
+
+/**
+ * Generates the content of waypoints and landmarks from a vault, both within Obsidian and from the command line.
+ */
+export class WaypointGenerator {
+	static readonly BEGIN_WAYPOINT = "%% Begin Waypoint %%";
+	static readonly END_WAYPOINT = "%% End Waypoint %%";
+	static readonly BEGIN_LANDMARK = "%% Begin Landmark %%";
+	static readonly END_LANDMARK = "%% End Landmark %%";
+	static readonly PROTOCOL_ACTION = "waypoint-create";
+
+	// Word counts of notes by path, along with the modification time they were counted at
+	wordCounts = new Map<string, { mtime: number; words: number }>();
+	// How many notes link to each file by path, counted once per generated waypoint rather than for every row
+	backlinkCounts: Map<string, number> | null = null;
+	// The waypoint or landmark in the folder note of each folder by folder path, so that finding the point covering
+	// a file does not require reading every folder note above it
+	pointIndex = new Map<string, { type: WaypointType; notePath: string }>();
+	pointIndexReady = false;
+
+	/**
+	 * @param vault The vault the waypoints list
+	 * @param settings The settings of the plugin, which may be changed later on
+	 * @param moment The moment.js function used to format dates
+	 */
+	constructor(private vault: Vault, public settings: WaypointSettings, private moment: typeof Moment) {}
+
+	/**
+	 * Index the waypoint or landmark of every folder note in the vault.
+	 */
+	async buildPointIndex() {
+		// Read the folder notes directly until the index is complete
+		this.pointIndexReady = false;
+		this.pointIndex.clear();
+		await this.indexFolderTree(this.vault.getRoot());
+		this.pointIndexReady = true;
+		this.log(`Indexed ${this.pointIndex.size} waypoints and landmarks`);
+	}
+
+	/**
+	 * Index the folder notes of the given folder and every folder below it.
+	 */
+	async indexFolderTree(folder: VaultFolder) {
+		const folderNote = this.getFolderNoteOf(folder);
+		if (folderNote !== null) {
+			await this.indexFolderNote(folderNote);
+		}
+		for (const child of folder.children) {
+			if (isFolder(child)) {
+				await this.indexFolderTree(child);
+			}
+		}
+	}
+
+	/**
+	 * Update the index entry of the folder described by the given folder note.
+	 */
+	async indexFolderNote(file: VaultFile) {
+		const folder = this.getFolderOfNote(file);
+		if (folder === null) {
+			return;
+		}
+		const text = await this.vault.read(file);
+		let type: WaypointType | null = null;
+		if (await this.containsPoint(text, WaypointType.Waypoint)) {
+			type = WaypointType.Waypoint;
+		} else if (await this.containsPoint(text, WaypointType.Landmark)) {
+			type = WaypointType.Landmark;
+		}
+		if (type === null) {
+			this.pointIndex.delete(folder.path);
+		} else {
+			this.pointIndex.set(folder.path, { type, notePath: file.path });
+		}
+	}
+
+	/**
+	 * Remove the index entries of a deleted or renamed file or folder, including every folder below it.
+	 */
+	removeFromPointIndex(path: string) {
+		for (const [folderPath, entry] of [...this.pointIndex.entries()]) {
+			if (folderPath === path || folderPath.startsWith(path + "/") || entry.notePath === path) {
+				this.pointIndex.delete(folderPath);
+			}
+		}
+	}
+
+	/**
+	 * Get the type of point in the folder note of the given folder, from the index if it has been built.
+	 * @returns The type of point, or null if the folder has no folder note or its folder note has no point
+	 */
+	async getPointOf(folder: VaultFolder): Promise<WaypointType | null> {
+		if (this.pointIndexReady) {
+			return this.pointIndex.get(folder.path)?.type ?? null;
+		}
+		const folderNote = this.getFolderNoteOf(folder);
+		if (folderNote === null) {
+			return null;
+		}
+		const text = await this.vault.read(folderNote);
+		if (await this.containsPoint(text, WaypointType.Waypoint)) {
+			return WaypointType.Waypoint;
+		}
+		return await this.containsPoint(text, WaypointType.Landmark) ? WaypointType.Landmark : null;
+	}
+
+	/**
+	 * Get a link that prompts for a name and then creates a note (or a folder with its folder note) in the given folder.
+	 * The name of the vault is left out so that the note reads the same in every copy of it: Obsidian opens the link in
+	 * the vault that is open.
+	 */
+	getCreateLink(folder: VaultFolder, isFolder: boolean, text: string): string {
+		const params = [
+			["folder", folder.path],
+			["type", isFolder ? "folder" : "file"]
+		].map(([key, value]) => `${key}=${encodeURIComponent(value)}`);
+		return `[${text}](obsidian://${WaypointGenerator.PROTOCOL_ACTION}?${params.join("&")})`;
+	}
+
+	isFolderNote(file: VaultFile): boolean {
+		if (file.extension !== "md") {
+			// Exports and attachments may share the name of the folder
+			return false;
+		}
+		if (this.settings.folderNoteType === FolderNoteType.InsideFolder) {
+			if (this.settings.folderNoteName == "") {
+				return file.basename == file.parent.name;
+			} else {
+				return file.basename == this.settings.folderNoteName;
+			}
+		}
+		if (file.parent) {
+			return isFolder(this.vault.getNode(this.getCleanParentPath(file) + file.basename));
+		}
+		return false;
+	}
+
+	getCleanParentPath(node: VaultNode): string {
+		if (isFolder(node.parent) && node.parent.isRoot()) {
+			return "";
+		}
+		return node.parent.path + "/";
+	}
+
+	/**
+	 * Get the string indices of the begin and end points for the given waypoint.
+	 */
+	async getWaypointBounds(flag: string): Promise<[string, string] | [null, null]> {
+		if (flag === WaypointType.Waypoint) {
+			return [WaypointGenerator.BEGIN_WAYPOINT, WaypointGenerator.END_WAYPOINT];
+		}
+		if (flag === WaypointType.Landmark) {
+			return [WaypointGenerator.BEGIN_LANDMARK, WaypointGenerator.END_LANDMARK];
+		}
+		return [null, null];
+	}
+
+	/**
+	 * Get the indicator for the given waypoint type.
+	 */
+	async getWaypointFlag(type: WaypointType): Promise<string> | null {
+		if (type === WaypointType.Waypoint) {
+			return this.settings.waypointFlag;
+		} else if (type === WaypointType.Landmark) {
+			return this.settings.landmarkFlag;
+		}
+		console.error("Error: Invalid waypoint type: " + type);
+		return null;
+	}
+
+	/**
+	 * Build a regex matching the given flag or marker, optionally followed by a name (e.g. `%% Waypoint:drafts %%`)
+	 * and inline options before the closing percent signs. The name and options are captured in the first and second groups.
+	 * @param name Only match the flag with this name ("" for unnamed flags), or any flag if undefined
+	 */
+	getFlagRegex(flag: string, name?: string): RegExp {
+		const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		const keyword = flag.replace(/^%%/, "").replace(/%%$/, "").trim();
+		let namePattern = "(?::([^\\s%]+))?";
+		if (name === "") {
+			namePattern = "()";
+		} else if (name !== undefined) {
+			namePattern = `:(${escape(name)})`;
+		}
+		return new RegExp(`%%\\s*${escape(keyword)}${namePattern}(?:\\s+([^%]*?))?\\s*%%`);
+	}
+
+	/**
+	 * Whether the given text contains a flag or generated block of the given waypoint type.
+	 */
+	async containsPoint(text: string, flagType: WaypointType): Promise<boolean> {
+		const [beginWaypoint] = await this.getWaypointBounds(flagType);
+		const waypointFlag = await this.getWaypointFlag(flagType);
+		return this.getFlagRegex(beginWaypoint).test(text) || this.getFlagRegex(waypointFlag).test(text);
+	}
+
+	/**
+	 * Find every flag and generated block of the given waypoint type within the lines of a note.
+	 * @returns The locations of the waypoints, in the order they appear in the note
+	 */
+	async locateWaypointBlocks(lines: string[], flagType: WaypointType): Promise<WaypointBlock[]> {
+		const [beginWaypoint, endWaypoint] = await this.getWaypointBounds(flagType);
+		if (beginWaypoint === null || endWaypoint === null) {
+			return [];
+		}
+		const flagRegex = this.getFlagRegex(await this.getWaypointFlag(flagType));
+		const beginRegex = this.getFlagRegex(beginWaypoint);
+		const blocks: WaypointBlock[] = [];
+		for (let i = 0; i < lines.length; i++) {
+			const trimmed = lines[i].trim();
+			const flagMatch = trimmed.match(flagRegex);
+			const match = flagMatch ?? trimmed.match(beginRegex);
+			if (!match) {
+				continue;
+			}
+			const block: WaypointBlock = {
+				start: i,
+				end: -1,
+				isCallout: trimmed.startsWith(">"),
+				initial: flagMatch !== null,
+				name: match[1] ?? "",
+				rawOptions: (match[2] ?? "").trim(),
+				hash: null
+			};
+			blocks.push(block);
+			if (block.initial) {
+				continue;
+			}
+			const endRegex = this.getFlagRegex(endWaypoint, block.name);
+			for (let j = i + 1; j < lines.length; j++) {
+				const line = lines[j].trim();
+				// A block missing its end marker must not reach into the next waypoint
+				if (flagRegex.test(line) || beginRegex.test(line)) {
+					break;
+				}
+				const endMatch = line.match(endRegex);
+				if (endMatch) {
+					block.end = j;
+					block.hash = endMatch[2]?.match(/(?:^|\s)hash:([0-9a-f]+)/)?.[1] ?? null;
+					i = j;
+					break;
+				}
+			}
+		}
+		return blocks;
+	}
+
+	/**
+	 * Parse the inline options of a flag, e.g. `sort:-date columns:status,owner limit:20 depth:2`.
+	 * Values containing spaces can be wrapped in double or single quotes.
+	 * @throws Error if an option is unknown or has an invalid value
+	 */
+	parseWaypointOptions(rawOptions: string): WaypointOptions {
+		const options: WaypointOptions = {};
+		const errors = this.getLocale().errors;
+		const tokenRegex = /\s*([^\s:"']+):("[^"]*"|'[^']*'|[^\s"']*)\s*/y;
+		const text = rawOptions.trim();
+		while (tokenRegex.lastIndex < text.length) {
+			const match = tokenRegex.exec(text);
+			if (match === null) {
+				throw new Error(errors.invalidOptions(rawOptions));
+			}
+			const key = match[1];
+			const value = match[2].replace(/^"(.*)"$|^'(.*)'$/, "$1$2");
+			switch (key) {
+				case "sort":
+					options.sort = parseSortOrder(value, errors);
+					break;
+				case "group":
+					options.group = parseSortGroup(value, errors);
+					break;
+				case "mode":
+					if (!(Object.values(RenderMode) as string[]).includes(value)) {
+						throw new Error(errors.invalidChoice(key, value, Object.values(RenderMode)));
+					}
+					options.mode = value as RenderMode;
+					break;
+				case "layout":
+					if (getLayout(value) === undefined) {
+						throw new Error(errors.invalidChoice(key, value, getLayoutNames()));
+					}
+					options.layout = value;
+					break;
+				case "filter":
+					try {
+						options.filter = parseFilter(value, errors);
+					} catch (e) {
+						throw new Error(errors.invalidFilter(value, e.message));
+					}
+					break;
+				case "groupBy":
+					options.groupBy = parseGroupBy(value, errors);
+					break;
+				case "aggregate":
+					options.aggregate = parseAggregates(value, errors);
+					break;
+				case "columns":
+					options.columns = value.split(",").map((column) => column.trim()).filter((column) => column !== "");
+					break;
+				case "limit":
+				case "depth": {
+					const num = parseInt(value, 10);
+					if (isNaN(num) || num < 1 || String(num) !== value) {
+						throw new Error(errors.notPositive(key, value));
+					}
+					options[key] = num;
+					break;
+				}
+				default:
+					throw new Error(errors.unknownOption(key));
+			}
+		}
+		return options;
+	}
+
+	/**
+	 * Add the name and inline options of a waypoint to the given marker so they survive regeneration.
+	 */
+	getMarker(marker: string, name: string, rawOptions = ""): string {
+		let text = marker.replace(/\s*%%$/, "");
+		if (name !== "") {
+			text += ":" + name;
+		}
+		if (rawOptions !== "") {
+			text += " " + rawOptions;
+		}
+		return text + " %%";
+	}
+
+	/**
+	 * Regenerate every waypoint (or landmark) in the content of a folder note. Blocks that were edited by hand are left
+	 * as they are unless they are overwritten, and blocks that lost their end marker are always left as they are.
+	 * @param file The folder note
+	 * @param text The content of the folder note
+	 * @param overwrite Whether to replace blocks even if they were edited by hand
+	 * @returns The updated content along with the blocks that were not updated and why (in the order they appear in the note),
+	 * or null if the note contains no block of the given type
+	 */
+	async updateBlocks(file: VaultFile, text: string, flagType: WaypointType, overwrite: boolean): Promise<{ text: string; conflicts: [WaypointBlock, string][] } | null> {
+		const [beginWaypoint, endWaypoint] = await this.getWaypointBounds(flagType);
+		if (beginWaypoint === null || endWaypoint === null) {
+			console.error("Error: Waypoint bounds not found, unable to continue.");
+			return null;
+		}
+		const lines: string[] = text.split("\n");
+		const blocks = await this.locateWaypointBlocks(lines, flagType);
+		if (blocks.length === 0) {
+			return null;
+		}
+		const conflicts: [WaypointBlock, string][] = [];
+		// Replace the blocks from the bottom up so that the line numbers of the remaining blocks stay valid
+		for (const block of blocks.reverse()) {
+			this.log(flagType + " " + block.name + " found at " + block.start + " to " + block.end);
+			// Without its end marker there is no telling where the block ends, so it is not replaced even when overwriting
+			const conflict = overwrite && block.end !== -1 ? null : this.getEditConflict(lines, block);
+			if (conflict !== null) {
+				this.log(flagType + " " + block.name + " in " + file.path + " was not updated as " + conflict);
+				conflicts.push([block, conflict]);
+				continue;
+			}
+			let fileTree: string;
+			try {
+				const options = this.parseWaypointOptions(block.rawOptions);
+				const folder = this.getFolderOfNote(file);
+				if (folder === null) {
+					throw new Error(this.getLocale().errors.notFolderNote(flagType));
+				}
+				// The listed folder, as folder notes outside their folder are not within it
+				fileTree = await this.generateWaypointContent(folder, folder, options, file.path);
+			} catch (e) {
+				// Keep the markers along with the name and options of the waypoint, so that it is generated again once the error is fixed
+				fileTree = formatErrorComment(this.getLocale(), e.message);
+			}
+			const hash = hashContent(fileTree);
+			let waypoint = `${this.getMarker(beginWaypoint, block.name, block.rawOptions)}\n${fileTree}\n\n${this.getMarker(endWaypoint, block.name, "hash:" + hash)}`;
+			if (block.isCallout) {
+				if (block.initial && !/^>\s*\[!(waypoint|landmark)\]/i.test(lines[block.start - 1] ?? "")) {
+					// Add callout block prefix to the waypoint
+					const prefix = flagType === WaypointType.Landmark ? "[!landmark]\n" : "[!waypoint]\n";
+					waypoint = prefix + waypoint;
+				}
+				// Prefix each line with ">" to make it a callout
+				const waypointLines = waypoint.split("\n");
+				const updatedLines = waypointLines.map((line) => `>${line}`);
+				waypoint = updatedLines.join("\n");
+			}
+			lines.splice(block.start, block.end !== -1 ? block.end - block.start + 1 : 1, waypoint);
+		}
+		return { text: lines.join("\n"), conflicts: conflicts.reverse() };
+	}
+
+	/**
+	 * Check whether a generated block can be safely replaced: its end marker must still be there and its content must
+	 * match the hash of what was last generated.
+	 * @returns Why the block must not be replaced, or null if it can be
+	 */
+	getEditConflict(lines: string[], block: WaypointBlock): string | null {
+		if (block.initial) {
+			return null;
+		}
+		if (block.end === -1) {
+			return "its end marker is missing";
+		}
+		if (block.hash === null) {
+			return null;
+		}
+		const content = lines.slice(block.start + 1, block.end).map((line) => block.isCallout ? line.replace(/^>/, "") : line).join("\n");
+		return hashContent(content) === block.hash ? null : "it was edited by hand";
+	}
+
+	/**
+	 * Check every waypoint and landmark in the vault, along with flags in notes where they cannot be generated
+	 * and errors that were written in place of a flag.
+	 * @returns The reports, ordered by the path of their note and then by line
+	 */
+	async inspectVault(): Promise<PointReport[]> {
+		const reports: PointReport[] = [];
+		const inspectFolder = async (folder: VaultFolder) => {
+			for (const child of folder.children) {
+				if (isFolder(child)) {
+					await inspectFolder(child);
+				} else if (isFile(child) && child.extension === "md") {
+					reports.push(...await this.inspectNote(child));
+				}
+			}
+		};
+		await inspectFolder(this.vault.getRoot());
+		return reports.sort((a, b) => a.notePath.localeCompare(b.notePath) || a.line - b.line);
+	}
+
+	/**
+	 * Check the waypoints and landmarks of a note: whether they can be generated there, whether their end marker
+	 * is missing or they were edited by hand, whether their options are valid and whether their columns exist.
+	 * @returns A report for each flag, generated block and error in the note
+	 */
+	async inspectNote(file: VaultFile): Promise<PointReport[]> {
+		const text = await this.vault.read(file);
+		if (!text.includes("%%")) {
+			return [];
+		}
+		const lines = text.split("\n");
+		const folder = this.isFolderNote(file) ? this.getFolderOfNote(file) : null;
+		const locale = this.getLocale();
+		const reports: PointReport[] = [];
+		const blocks: WaypointBlock[] = [];
+		for (const flagType of [WaypointType.Waypoint, WaypointType.Landmark]) {
+			for (const block of await this.locateWaypointBlocks(lines, flagType)) {
+				blocks.push(block);
+				const report: PointReport = {
+					type: flagType,
+					notePath: file.path,
+					folderPath: folder?.path ?? null,
+					name: block.name,
+					line: block.start,
+					rows: null,
+					problems: []
+				};
+				reports.push(report);
+				if (folder === null) {
+					report.problems.push(file.parent.isRoot() ? locale.errors.rootFolder(flagType) : locale.errors.notFolderNote(flagType));
+					continue;
+				}
+				if (this.getEditConflict(lines, block) !== null) {
+					report.problems.push(block.end === -1 ? locale.errors.missingEndMarker : locale.errors.editedByHand);
+				}
+				try {
+					const options = this.parseWaypointOptions(block.rawOptions);
+					const listing = this.getListing(folder, options, file.path);
+					const children = (await this.collectChildren(folder, options.depth ?? 1, listing)).map((child) => child.node);
+					report.rows = options.limit !== undefined ? Math.min(children.length, options.limit) : children.length;
+					for (const key of this.getUnknownColumns(this.getColumns(listing.frontmatter, options), children)) {
+						report.problems.push(locale.errors.unknownColumn(key));
+					}
+				} catch (e) {
+					report.problems.push(e.message);
+				}
+			}
+		}
+		lines.forEach((line, i) => {
+			// Errors within a generated block are reported along with the block itself
+			const withinBlock = blocks.some((block) => i > block.start && i < block.end);
+			const message = withinBlock ? null : parseErrorComment(line);
+			if (message !== null) {
+				reports.push({ type: null, notePath: file.path, folderPath: folder?.path ?? null, name: "", line: i, rows: null, problems: [message] });
+			}
+		});
+		return reports;
+	}
+
+	/**
+	 * Get the keys of the given columns that are neither built in nor a property of any of the listed nodes,
+	 * which usually means they were misspelled. Nothing is reported for a waypoint without rows.
+	 */
+	getUnknownColumns(columns: Column[], nodes: VaultNode[]): string[] {
+		if (nodes.length === 0) {
+			return [];
+		}
+		return columns
+			.map((column) => column.key)
+			.filter((key) => !["title", "date", ...COMPUTED_COLUMNS].includes(key.toLowerCase()))
+			.filter((key) => nodes.every((node) => this.getFilterValue(node, key) === undefined));
+	}
+
+	/**
+	 * Check the ignored paths of the settings, each of which is a regular expression.
+	 * @returns A description of each invalid path
+	 */
+	getSettingsProblems(): string[] {
+		const problems: string[] = [];
+		for (const path of this.settings.ignorePaths) {
+			try {
+				new RegExp(path);
+			} catch (e) {
+				problems.push(`Invalid ignored path "${path}": ${e.message}`);
+			}
+		}
+		return problems;
+	}
+
+	/**
+	 * Generate the content of a waypoint for the given folder in the selected render mode.
+	 * @param rootNode The root of the file tree that will be generated
+	 * @param folder The folder whose contents are listed
+	 * @param options The inline options of the waypoint
+	 * @param sourcePath The path of the note the waypoint is written in
+	 * @throws Error if the folder note contains an invalid sort order or filter
+	 */
+	async generateWaypointContent(rootNode: VaultFolder, folder: VaultFolder, options: WaypointOptions, sourcePath: string): Promise<string> {
+		const mode = options.mode ?? this.settings.renderMode;
+		const listing = this.getListing(folder, options, sourcePath);
+		const parts: string[] = [];
+		if (mode !== RenderMode.Tree) {
+			const layout = getLayout(options.layout ?? this.settings.layout) ?? getLayout("table");
+			const model = await this.buildWaypointModel(rootNode, folder, listing, options, layout.nested, layout.excerpts);
+			parts.push(renderLayout(layout, model, { indent: this.getIndent(), totalLabel: this.getLocale().total }));
+		}
+		if (mode !== RenderMode.Table) {
+			parts.push(await this.getFileTreeRepresentation(rootNode, folder, 0, listing, true, options.depth) ?? "");
+		}
+		return parts.join("\n\n");
+	}
+
+	/**
+	 * Determine how the children of the given folder are filtered and sorted, from the inline options, the
+	 * properties of its folder note and the global settings (in that order of priority).
+	 * @throws Error if the folder note contains an invalid sort order or filter
+	 */
+	getListing(folder: VaultFolder, options: WaypointOptions, sourcePath: string): Listing {
+		// Links may have changed since the last waypoint was generated
+		this.backlinkCounts = null;
+		// [변경] 인라인 filter 옵션이 폴더노트 frontmatter의 filter보다 우선
+		const folderNote = this.getFolderNoteOf(folder);
+		const frontmatter =
+			folderNote ? this.vault.getMetadata(folderNote)?.frontmatter : undefined;
+		// [변경] 정렬 순서: 인라인 옵션 > 폴더노트 frontmatter > 전역 설정
+		const errors = this.getLocale().errors;
+		const sort = frontmatter?.sort ?? this.settings.sortOrder;
+		const sortKeys = options.sort ?? parseSortOrder(Array.isArray(sort) ? sort : String(sort), errors);
+		const sortGroup = options.group ?? parseSortGroup(String(frontmatter?.group ?? this.settings.sortGroup), errors);
+		if (!sortKeys.some((sortKey) => sortKey.key.toLowerCase() === "title")) {
+			// Break any remaining ties by title so the order is stable between updates
+			sortKeys.push({ key: "title", descending: false });
+		}
+		// [변경] 폴더노트 frontmatter의 filter 식으로 자식 필터링
+		let filter: FilterExpression | null = options.filter ?? null;
+		if (filter === null && frontmatter?.filter !== undefined && frontmatter.filter !== null) {
+			try {
+				filter = parseFilter(String(frontmatter.filter), errors);
+			} catch (e) {
+				throw new Error(errors.invalidFilter(String(frontmatter.filter), e.message));
+			}
+		}
+		return {
+			sourcePath,
+			folderNote,
+			frontmatter,
+			filter,
+			compare: createComparator(
+				sortKeys,
+				sortGroup,
+				this.settings.naturalSort,
+				(child: VaultNode, key: string) => this.getSortValue(child, key),
+				(child: VaultNode) => isFolder(child)
+			)
+		};
+	}
+
+	/**
+	 * Whether the given node passes the filter of the listing.
+	 */
+	matchesFilter(node: VaultNode, listing: Listing): boolean {
+		return listing.filter === null || evaluateFilter(listing.filter, (field) => this.getFilterValue(node, field));
+	}
+
+	/**
+	 * Generate a file tree representation of the given folder as a nested bullet list.
+	 * Nested folders with a waypoint (or any folder note if "stopScanAtFolderNotes" is enabled) are listed but not expanded.
+	 * @param rootNode The root of the file tree that will be generated
+	 * @param node The current node in our recursive descent
+	 * @param indentLevel How many levels of indentation to draw (used internally)
+	 * @param listing How the children of each folder are filtered and sorted
+	 * @param topLevel Whether this is the top level of the tree or not
+	 * @param depth How many levels of folders to expand, or undefined to expand every level
+	 * @returns The string representation of the tree, or null if the node should not be listed
+	 */
+	async getFileTreeRepresentation(rootNode: VaultFolder, node: VaultNode, indentLevel: number, listing: Listing, topLevel = false, depth?: number): Promise<string | null> {
+		const bullet = this.getIndent().repeat(indentLevel) + "-";
+		if (!isFile(node) && !isFolder(node)) {
+			return null;
+		}
+		if (this.ignorePath(node.path)) {
+			return null;
+		}
+		if (isFile(node)) {
+			if (node.extension !== "md" && !this.settings.showNonMarkdownFiles) {
+				return null;
+			}
+			if (!this.matchesFilter(node, listing)) {
+				return null;
+			}
+			return `${bullet} ${this.getLink(node.path, String(this.getSortValue(node, "title")), listing.sourcePath)}`;
+		}
+		let text = "";
+		if (!topLevel || this.settings.showEnclosingNote) {
+			// Print the folder name
+			text = `${bullet} **${node.name}**`;
+			const folderNote = this.getFolderNoteOf(node);
+			if (folderNote !== null) {
+				text = `${bullet} **${this.getLink(folderNote.path, node.name, listing.sourcePath)}**`;
+				if (!topLevel && await this.isScanStop(node)) {
+					return text;
+				}
+			}
+		}
+		if (depth !== undefined && depth < 1) {
+			return text;
+		}
+		// Print the files and nested folders within the folder
+		const children = node.children
+			.filter((child) => this.settings.showFolderNotes || !(isFile(child) && this.isFolderNote(child)))
+			.sort(listing.compare);
+		const nextIndentLevel = topLevel && !this.settings.showEnclosingNote ? indentLevel : indentLevel + 1;
+		const nextDepth = depth === undefined ? undefined : depth - 1;
+		const lines = (await Promise.all(children.map((child) => this.getFileTreeRepresentation(rootNode, child, nextIndentLevel, listing, false, nextDepth))))
+			.filter(Boolean);
+		return [text, ...lines].filter(Boolean).join("\n");
+	}
+
+	/**
+	 * Build the rows and columns listed by a waypoint, which are then rendered by its layout.
+	 * @param rootNode The root of the file tree that will be generated
+	 * @param node The folder whose children are listed
+	 * @param listing How the children are filtered and sorted
+	 * @param options The inline options of the waypoint
+	 * @param nested Whether to keep the folder hierarchy instead of sorting every row as a single list
+	 * @param excerpts Whether to read an excerpt of each note
+	 */
+	async buildWaypointModel(rootNode: VaultFolder, node: VaultFolder, listing: Listing, options: WaypointOptions, nested: boolean, excerpts: boolean): Promise<WaypointModel> {
+		this.log(node.path);
+		// [변경] 자식 요소 처리(정렬/필터)
+		const frontmatter = listing.frontmatter;
+		const columns = this.getColumns(frontmatter, options);
+		const children = await this.getListedChildren(node, listing, options, columns, nested);
+
+		// [변경] 폴더 내 new file/new folder 버튼 (이름을 입력받아 템플릿으로 생성)
+		const locale = this.getLocale();
+		const actions = [this.getCreateLink(node, false, locale.newFile), this.getCreateLink(node, true, locale.newFolder)];
+
+		const rows: WaypointRow[] = [];
+		const rowNodes = new Map<WaypointRow, VaultNode>();
+		for (const { node: child, depth } of children) {
+			const cells = columns.map((column) => this.getCellValue(child, column.key, listing.sourcePath, column.type, column.format));
+			const titleIndex = columns.findIndex((column) => column.key.toLowerCase() === "title");
+			const row: WaypointRow = {
+				link: titleIndex !== -1 ? cells[titleIndex] : this.getCellValue(child, "TITLE", listing.sourcePath),
+				isFolder: isFolder(child),
+				depth,
+				cells,
+				cover: this.getCover(child),
+				excerpt: excerpts && isFile(child) && child.extension === "md" ? await this.getExcerpt(child) : null
+			};
+			rows.push(row);
+			rowNodes.set(row, child);
+		}
+
+		// [변경] groupBy 옵션으로 행을 그룹별로 나누고, aggregate 옵션의 합계/평균/최소/최대를 footer 행에 표시
+		const groupBy = options.groupBy ?? (frontmatter?.groupBy ? parseGroupBy(String(frontmatter.groupBy), locale.errors) : undefined);
+		const aggregates = options.aggregate ?? (frontmatter?.aggregate ? parseAggregates(String(frontmatter.aggregate), locale.errors) : []);
+		for (const aggregate of aggregates) {
+			if (!columns.some((column) => column.key.toLowerCase() === aggregate.key.toLowerCase())) {
+				throw new Error(locale.errors.cannotAggregate(aggregate.key));
+			}
+		}
+		const getFooter = (groupRows: WaypointRow[]): string[] | null => {
+			if (aggregates.length === 0) {
+				return null;
+			}
+			return columns.map(({ key }) => aggregates
+				.filter((aggregate) => aggregate.key.toLowerCase() === key.toLowerCase())
+				.map((aggregate) => {
+					const result = computeAggregate(aggregate.fn, groupRows.map((row) => this.getFilterValue(rowNodes.get(row), key)));
+					return result === "" ? "" : `${aggregate.fn} ${result}`;
+				})
+				.filter((result) => result !== "")
+				.join(", "));
+		};
+		let groups: WaypointGroup[];
+		if (groupBy === undefined) {
+			groups = [{ label: null, rows, footer: getFooter(rows) }];
+		} else {
+			// Nested layouts keep the rows within each folder along with it, so only the rows directly within the listed folder are grouped
+			const units: WaypointRow[][] = [];
+			for (const row of rows) {
+				if (!nested || row.depth === 0 || units.length === 0) {
+					units.push([row]);
+				} else {
+					units[units.length - 1].push(row);
+				}
+			}
+			groups = groupItems(units, (unit) => this.getGroupValues(rowNodes.get(unit[0]), groupBy), locale.noValue(groupBy.key))
+				.map((group) => {
+					const groupRows = ([] as WaypointRow[]).concat(...group.items);
+					return { label: group.label, rows: groupRows, footer: getFooter(groupRows) };
+				});
+		}
+		// [변경] TITLE/DATE 헤더는 설정된 언어로 표시
+		const headers = columns.map(({ key }) => this.getHeader(key, locale));
+		return { heading: rootNode.name, actions, columns: columns.map((column) => column.key), headers, groups };
+	}
+
+	/**
+	 * Get the children listed as rows of a waypoint, in the order they are listed and up to its limit.
+	 * @param nested Whether to keep the folder hierarchy instead of sorting every row as a single list
+	 */
+	async getListedChildren(folder: VaultFolder, listing: Listing, options: WaypointOptions, columns: Column[], nested: boolean): Promise<ListedNode[]> {
+		if (columns.some((column) => column.key.toLowerCase() === "words")) {
+			// Counting words requires reading each note, so do it before the rows are sorted
+			await this.loadWordCounts(folder, options.depth ?? 1);
+		}
+		let children = await this.collectChildren(folder, options.depth ?? 1, listing);
+		if (!nested) {
+			children = children.sort((a, b) => listing.compare(a.node, b.node));
+		}
+		if (options.limit !== undefined) {
+			children = children.slice(0, options.limit);
+		}
+		return children;
+	}
+
+	/**
+	 * Build the rows of a waypoint for exporting, with the same columns, order and limit as its table.
+	 * @param file The folder note
+	 * @param block The waypoint within the folder note
+	 * @throws Error if the note is not a folder note or the waypoint cannot be generated
+	 */
+	async buildExportTable(file: VaultFile, block: WaypointBlock): Promise<ExportTable> {
+		const folder = this.getFolderOfNote(file);
+		if (folder === null) {
+			throw new Error(`${file.path} is not a folder note`);
+		}
+		return this.getRows(folder, this.parseWaypointOptions(block.rawOptions), file.path);
+	}
+
+	/**
+	 * Build the rows a waypoint with the given options lists for a folder, with the typed value and the displayed
+	 * text of each column.
+	 * @param sourcePath The path of the note the waypoint would be written in
+	 * @throws Error if the folder note contains an invalid sort order or filter
+	 */
+	async getRows(folder: VaultFolder, options: WaypointOptions, sourcePath: string): Promise<ExportTable> {
+		const listing = this.getListing(folder, options, sourcePath);
+		const columns = this.getColumns(listing.frontmatter, options);
+		const layout = getLayout(options.layout ?? this.settings.layout) ?? getLayout("table");
+		const children = await this.getListedChildren(folder, listing, options, columns, layout.nested);
+		const locale = this.getLocale();
+		return {
+			title: folder.name,
+			columns: columns.map((column) => column.key),
+			headers: columns.map(({ key }) => this.getHeader(key, locale)),
+			rows: children.map(({ node, depth }) => ({
+				path: node.path,
+				isFolder: isFolder(node),
+				depth,
+				values: columns.map((column) => this.getExportValue(node, column)),
+				texts: columns.map((column) => markdownToText(this.getCellValue(node, column.key, sourcePath, column.type, column.format)))
+			}))
+		};
+	}
+
+	/**
+	 * Get the value of a column for exporting, keeping its type rather than the text shown in the waypoint.
+	 * The DATE and "mtime" columns are dates, other columns keep the type of their property unless they declare one.
+	 */
+	getExportValue(node: VaultNode, column: Column): ExportValue {
+		switch (column.key.toLowerCase()) {
+			case "title":
+				return toExportValue(this.getSortValue(node, "title"));
+			case "date":
+				return isFile(node) ? toExportValue(this.getDateValue(node), "date") : null;
+			case "mtime":
+				return toExportValue(this.getComputedValue(node, "mtime"), "date");
+		}
+		return toExportValue(this.getFilterValue(node, column.key), column.type);
+	}
+
+	/**
+	 * Get the columns of a waypoint: TITLE and DATE, followed by its "columns" option or else the "keys" of its folder note.
+	 */
+	getColumns(frontmatter: FileMetadata["frontmatter"], options: WaypointOptions): Column[] {
+		// [변경] Table head: frontmatter keys 추출 (동적 column), "due:date"처럼 타입 지정 가능
+		const keyList = ["TITLE", "DATE"];
+		if (options.columns !== undefined) {
+			keyList.push(...options.columns);
+		} else if (
+			frontmatter != null &&
+			frontmatter.hasOwnProperty("keys") &&
+			Array.isArray(frontmatter.keys)
+		) {
+			keyList.push(...frontmatter.keys.map(String));
+		}
+		const errors = this.getLocale().errors;
+		return keyList.map((spec) => parseColumn(spec, errors));
+	}
+
+	/**
+	 * Get the labels of the groups the given node belongs to, e.g. one per tag when grouping by "tags".
+	 */
+	getGroupValues(node: VaultNode, groupBy: GroupBy): string[] {
+		let value = this.getFilterValue(node, groupBy.key);
+		if (typeof value === "string" && groupBy.key.toLowerCase() === "tags") {
+			// Tags can also be written as a single space or comma separated string
+			value = value.split(/[\s,]+/);
+		}
+		return getGroupLabels(value, groupBy.granularity);
+	}
+
+	/**
+	 * Get the Markdown shown in the given column for a listed child.
+	 * @param key "TITLE", "DATE", a computed column or a frontmatter key
+	 * @param sourcePath The path of the note the waypoint is written in
+	 * @param type The declared type of the column, or undefined to format the value according to its own type
+	 * @param format The declared format of the column, e.g. the date format of a date column
+	 */
+	getCellValue(child: VaultNode, key: string, sourcePath: string, type?: string, format?: string): string {
+		const f =
+			isFile(child)
+				? this.vault.getMetadata(child)?.frontmatter
+				: undefined;
+		switch (key) {
+			case "TITLE":
+			case "Title":
+			case "title":
+				if (isFile(child)) {
+					return this.getLink(child.path, String(this.getSortValue(child, "title")), sourcePath);
+				}
+				return this.getLink(this.getFolderNotePath(child.path), child.name, sourcePath);
+
+			case "DATE":
+			case "Date":
+			case "date":
+				if (isFile(child)) {
+					return this.formatDate(new Date(this.getDateValue(child) ?? ""));
+				}
+				return "";
+
+			default: {
+				const context = { key, format, formatDate: (date: Date, dateFormat?: string) => this.formatDate(date, dateFormat) };
+				if (COMPUTED_COLUMNS.includes(key.toLowerCase())) {
+					if (type !== undefined) {
+						return formatValue(this.getComputedValue(child, key.toLowerCase()), type, context);
+					}
+					return this.formatComputedValue(child, key.toLowerCase());
+				}
+				return formatValue(f?.[key], type, context);
+			}
+		}
+	}
+
+	/**
+	 * Get the raw value of a computed column for sorting, filtering and aggregates.
+	 * Folders only have a "folder", every other column is computed from the file itself.
+	 * @param key One of COMPUTED_COLUMNS, in lower case
+	 * @returns The value, or undefined if it does not apply to the node
+	 */
+	getComputedValue(node: VaultNode, key: string): unknown {
+		if (key === "folder") {
+			return node.parent?.path ?? "";
+		}
+		if (!isFile(node)) {
+			return undefined;
+		}
+		const cache = this.vault.getMetadata(node);
+		switch (key) {
+			case "mtime":
+				return node.stat.mtime;
+			case "size":
+				return node.stat.size;
+			case "words": {
+				const counted = this.wordCounts.get(node.path);
+				return counted !== undefined && Object.is(counted.mtime, node.stat.mtime) ? counted.words : undefined;
+			}
+			case "backlinks":
+				if (this.backlinkCounts === null) {
+					this.backlinkCounts = this.countBacklinks();
+				}
+				return this.backlinkCounts.get(node.path) ?? 0;
+			case "outlinks":
+				return Object.keys(this.vault.getResolvedLinks()[node.path] ?? {}).length;
+			case "tasks": {
+				// The share of completed tasks, so that notes sort by their progress
+				const tasks = this.getTaskCounts(node);
+				return tasks.total === 0 ? undefined : tasks.done / tasks.total;
+			}
+			case "headings":
+				return cache?.headings?.length ?? 0;
+			case "extension":
+				return node.extension;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Get the Markdown shown in a computed column for a listed child.
+	 * @param key One of COMPUTED_COLUMNS, in lower case
+	 */
+	formatComputedValue(node: VaultNode, key: string): string {
+		const value = this.getComputedValue(node, key);
+		if (value === undefined) {
+			return "";
+		}
+		switch (key) {
+			case "mtime":
+				return this.formatDate(new Date(value as number));
+			case "size":
+				return this.formatSize(value as number);
+			case "tasks": {
+				const tasks = this.getTaskCounts(node as VaultFile);
+				return `${tasks.done}/${tasks.total}`;
+			}
+			case "folder":
+				return value === "/" ? "" : String(value);
+		}
+		return String(value);
+	}
+
+	/**
+	 * Count the checkboxes of the given note and how many of them are checked.
+	 */
+	getTaskCounts(file: VaultFile): { done: number; total: number } {
+		const tasks = (this.vault.getMetadata(file)?.listItems ?? []).filter((item) => item.task !== undefined);
+		return { done: tasks.filter((item) => item.task !== " ").length, total: tasks.length };
+	}
+
+	/**
+	 * Count the notes linking to each file, not including links from a note to itself.
+	 * @returns The number of linking notes by the path of the file
+	 */
+	countBacklinks(): Map<string, number> {
+		const counts = new Map<string, number>();
+		const links = this.vault.getResolvedLinks();
+		for (const source of Object.keys(links)) {
+			for (const target of Object.keys(links[source])) {
+				if (target !== source) {
+					counts.set(target, (counts.get(target) ?? 0) + 1);
+				}
+			}
+		}
+		return counts;
+	}
+
+	/**
+	 * Count the words of every note that may be listed in the given folder, skipping notes that have not changed
+	 * since they were last counted.
+	 * @param folder The folder to scan
+	 * @param depth How many levels of the folder tree to include
+	 */
+	async loadWordCounts(folder: VaultFolder, depth: number): Promise<void> {
+		for (const child of folder.children) {
+			if (isFolder(child) && depth > 1) {
+				await this.loadWordCounts(child, depth - 1);
+			}
+			// Object.is also matches the unknown (NaN) times of files read by the command line
+			if (!isFile(child) || child.extension !== "md" || Object.is(this.wordCounts.get(child.path)?.mtime, child.stat.mtime)) {
+				continue;
+			}
+			const text = await this.vault.read(child);
+			const body = text.replace(/^---\n[\s\S]*?\n---(\n|$)/, "");
+			this.wordCounts.set(child.path, { mtime: child.stat.mtime, words: body.match(/\S+/g)?.length ?? 0 });
+		}
+	}
+
+	/**
+	 * Get an embed of the cover image of the given note (or folder note), set by the configured frontmatter property.
+	 * @returns The Markdown embed, or null if the note has no cover
+	 */
+	getCover(node: VaultNode): string | null {
+		const file = isFolder(node) ? this.getFolderNoteOf(node) : node;
+		const f = isFile(file) ? this.vault.getMetadata(file)?.frontmatter : undefined;
+		const cover = f?.[this.settings.coverProperty];
+		if (typeof cover !== "string" || cover.trim() === "") {
+			return null;
+		}
+		// Accept "image.png", "[[image.png]]" and "![[image.png]]" as well as URLs
+		const target = cover.trim().replace(/^!?\[\[(.*?)(\|.*)?\]\]$/, "$1");
+		if (/^https?:\/\//.test(target)) {
+			return `![](${target})`;
+		}
+		return `![[${target}|150]]`;
+	}
+
+	/**
+	 * Get the first paragraph of the given note, shortened to a single line.
+	 * @returns The excerpt, or null if the note has no text
+	 */
+	async getExcerpt(file: VaultFile): Promise<string | null> {
+		const text = await this.vault.read(file);
+		const body = text.replace(/^---\n[\s\S]*?\n---(\n|$)/, "");
+		const paragraph = body.split(/\n\s*\n/)
+			.map((block) => block.trim())
+			.find((block) => block !== "" && !block.startsWith("#") && !block.startsWith("%%") && !block.startsWith("```"));
+		if (paragraph === undefined) {
+			return null;
+		}
+		const excerpt = paragraph.replace(/\s+/g, " ");
+		return excerpt.length > 120 ? excerpt.substring(0, 119).trimEnd() + "…" : excerpt;
+	}
+
+	/**
+	 * Collect the children of the given folder that should be listed, descending into subfolders up to the given depth.
+	 * The children of each folder are sorted and directly followed by their own children.
+	 * Like trees, nested folders with a waypoint are listed but not descended into.
+	 * @param folder The folder to scan
+	 * @param depth How many levels of the folder tree to include (1 lists only the direct children)
+	 * @param listing How the children are filtered and sorted
+	 * @param level How deep the folder is nested below the listed folder (used internally)
+	 */
+	async collectChildren(folder: VaultFolder, depth: number, listing: Listing, level = 0): Promise<ListedNode[]> {
+		const children: ListedNode[] = [];
+		for (const child of [...folder.children].sort(listing.compare)) {
+			// TFile이면서 폴더노트라면 건너뛰고, 아니면 배열에 추가
+			if (this.ignorePath(child.path)) {
+				continue;
+			}
+			if (isFile(child) && this.isFolderNote(child) && !this.settings.showFolderNotes) {
+				continue;
+			}
+			if (isFile(child) && child.extension !== "md" && !this.settings.showNonMarkdownFiles) {
+				continue;
+			}
+			if (!this.matchesFilter(child, listing)) {
+				continue;
+			}
+			children.push({ node: child, depth: level });
+			if (isFolder(child) && depth > 1 && !(await this.isScanStop(child))) {
+				children.push(...await this.collectChildren(child, depth - 1, listing, level + 1));
+			}
+		}
+		return children;
+	}
+
+	/**
+	 * Whether a waypoint should stop descending into the given nested folder: when its folder note contains a waypoint,
+	 * or has a folder note at all if "stopScanAtFolderNotes" is enabled. Landmarks never stop the scan.
+	 */
+	async isScanStop(folder: VaultFolder): Promise<boolean> {
+		const folderNote = this.getFolderNoteOf(folder);
+		if (folderNote === null) {
+			return false;
+		}
+		if (this.settings.stopScanAtFolderNotes) {
+			return true;
+		}
+		return await this.getPointOf(folder) === WaypointType.Waypoint;
+	}
+
+	/**
+	 * Get the value shown in the DATE column of the given file: the date frontmatter property if set, otherwise its creation time.
+	 */
+	getDateValue(file: VaultFile): number | string | undefined {
+		const f = this.vault.getMetadata(file)?.frontmatter;
+		for (const key of ["DATE", "Date", "date"]) {
+			const value = f?.[key];
+			if (value) return typeof value === "number" ? value : String(value);
+		}
+		return file.stat?.ctime;
+	}
+
+	/**
+	 * Get the value of a property for filtering. Folders use the frontmatter of their folder note.
+	 * @param field "title", "date" (the value of the DATE column) or any frontmatter key
+	 */
+	getFilterValue(node: VaultNode, field: string): unknown {
+		const file = isFolder(node) ? this.getFolderNoteOf(node) : node;
+		const f = isFile(file) ? this.vault.getMetadata(file)?.frontmatter : undefined;
+		switch (field.toLowerCase()) {
+			case "title":
+				return this.getSortValue(node, "title");
+			case "date":
+				if (isFile(node)) {
+					return new Date(this.getDateValue(node) ?? "");
+				}
+				break;
+		}
+		if (COMPUTED_COLUMNS.includes(field.toLowerCase())) {
+			return this.getComputedValue(node, field.toLowerCase());
+		}
+		return f?.[field];
+	}
+
+	/**
+	 * Get the path of the folder note of the folder at the given path, whether or not it exists.
+	 */
+	getFolderNotePath(folderPath: string): string {
+		const parts = folderPath.split("/");
+		const name = parts[parts.length - 1];
+		if (this.settings.folderNoteType === FolderNoteType.OutsideFolder) {
+			// Folder.md next to Folder/
+			return [...parts.slice(0, -1), name + ".md"].join("/");
+		}
+		const filename = this.settings.folderNoteName == "" ? name : this.settings.folderNoteName;
+		return folderPath + "/" + filename + ".md";
+	}
+
+	/**
+	 * Get the folder note of the given folder if it exists.
+	 */
+	getFolderNoteOf(folder: VaultFolder): VaultFile | null {
+		if (folder.isRoot()) {
+			return null;
+		}
+		const folderNote = this.vault.getNode(this.getFolderNotePath(folder.path));
+		return isFile(folderNote) ? folderNote : null;
+	}
+
+	/**
+	 * Get the folder described by the given folder note.
+	 */
+	getFolderOfNote(file: VaultFile): VaultFolder | null {
+		if (this.settings.folderNoteType === FolderNoteType.InsideFolder) {
+			return file.parent;
+		}
+		const folder = this.vault.getNode(this.getCleanParentPath(file) + file.basename);
+		return isFolder(folder) ? folder : null;
+	}
+
+	/**
+	 * Get the value of the given sort key for a node. Folders only have a title.
+	 * @param key "title", "date", "ctime", "mtime" or any frontmatter key
+	 */
+	getSortValue(node: VaultNode, key: string): unknown {
+		if (!isFile(node)) {
+			if (key.toLowerCase() === "folder") {
+				return this.getComputedValue(node, "folder");
+			}
+			return key.toLowerCase() === "title" ? node.name : undefined;
+		}
+		const f = this.vault.getMetadata(node)?.frontmatter;
+		switch (key.toLowerCase()) {
+			case "title":
+				if (this.settings.useFrontMatterTitle && f && f.hasOwnProperty("title")) return f.title;
+				return node.extension == "md" ? node.basename : node.name;
+			case "date":
+				return new Date(this.getDateValue(node) ?? "").getTime();
+			case "ctime":
+				return node.stat.ctime;
+			case "mtime":
+				return node.stat.mtime;
+			default:
+				if (COMPUTED_COLUMNS.includes(key.toLowerCase())) {
+					return this.getComputedValue(node, key.toLowerCase());
+				}
+				return f?.[key];
+		}
+	}
+
+	/**
+	 * Format a date in the language of the generated text, e.g. "2024-01-31 (수)" or "3 days ago".
+	 * @param format A moment-style format or "relative", by default the date format of the settings
+	 * @returns The formatted date, or "" if the date is invalid
+	 */
+	formatDate(date: Date, format: string = this.settings.dateFormat): string {
+		if (isNaN(date.getTime())) {
+			return "";
+		}
+		const locale = this.getLocale();
+		if (format.trim().toLowerCase() === "relative") {
+			return formatRelativeDate(date, new Date(), locale);
+		}
+		return this.moment(date).format(localizeDateFormat(format, date, locale));
+	}
+
+	/**
+	 * Get the language of generated headers, labels, dates and errors. "auto" follows the language of Obsidian.
+	 */
+	getLocale(): Locale {
+		return getLocale(this.settings.language === "auto" ? this.moment.locale() : this.settings.language);
+	}
+
+	/**
+	 * Get the displayed name of a column, translating the built-in TITLE and DATE columns.
+	 */
+	getHeader(key: string, locale: Locale): string {
+		switch (key.toLowerCase()) {
+			case "title":
+				return locale.headers.title;
+			case "date":
+				return locale.headers.date;
+			default:
+				return key;
+		}
+	}
+
+	/**
+	 * Format a file size in bytes, e.g. "1.2 KB".
+	 */
+	formatSize(bytes: number): string {
+		const units = ["B", "KB", "MB", "GB"];
+		let size = bytes;
+		let unit = 0;
+		while (size >= 1024 && unit < units.length - 1) {
+			size /= 1024;
+			unit++;
+		}
+		return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+	}
+
+	/**
+	 * Generate a link to the given path in the configured link style. Wikilinks follow the link format of Obsidian
+	 * (the shortest path when possible, a path relative to the note or the full path) and Markdown links use an encoded
+	 * path relative to the note containing them.
+	 * @param path The path of the linked file, which may not exist yet
+	 * @param name The displayed text of the link
+	 * @param sourcePath The path of the note containing the link
+	 */
+	getLink(path: string, name: string, sourcePath: string): string {
+		if (this.settings.useWikiLinks) {
+			const file = this.vault.getNode(path);
+			let target: string;
+			switch (this.vault.getLinkFormat()) {
+				case "absolute":
+					target = path;
+					break;
+				case "relative":
+					target = getRelativePath(sourcePath.split("/").slice(0, -1).join("/"), path).replace(/^\.\//, "");
+					break;
+				default:
+					target = isFile(file) ? this.vault.getLinkText(file, sourcePath) : path;
+			}
+			return wikiLink(target.replace(/\.md$/, ""), name);
+		}
+		return markdownLink(this.getEncodedUri(sourcePath, path), name);
+	}
+
+	/**
+	 * Get the string used for each level of indentation in lists.
+	 */
+	getIndent(): string {
+		return this.settings.useSpaces ? " ".repeat(this.settings.numSpaces) : "\t";
+	}
+
+	/**
+	 * Generate an encoded URI path to the given file that is relative to the folder of the given note.
+	 * @param sourcePath The note from which the relative path will be generated
+	 * @param path The path to which the path will be generated
+	 * @returns The encoded path
+	 */
+	getEncodedUri(sourcePath: string, path: string) {
+		const sourceFolder = sourcePath.split("/").slice(0, -1).join("/");
+		return encodeLinkPath(getRelativePath(sourceFolder, path));
+	}
+
+	ignorePath(path: string): boolean {
+		let found = false;
+		this.settings.ignorePaths.forEach((comparePath) => {
+			if (comparePath === "") {
+				// Ignore empty paths (occurs when the setting value is empty)
+				return;
+			}
+			const regex = new RegExp(comparePath);
+			if (path.match(regex)) {
+				this.log(`Ignoring path: ${path}`);
+				found = true;
+			}
+		});
+		if (found) {
+			return true;
+		}
+		return false;
+	}
+
+	log(message: string) {
+		if (this.settings.debugLogging) {
+			console.log(message);
+		}
+	}
+}
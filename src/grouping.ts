@@ -0,0 +1,162 @@
+import { ErrorMessages, getLocale } from "./locales";
+
+export type DateGranularity = "day" | "month" | "year";
+
+/**
+ * The property the rows of a waypoint are grouped by, e.g. `status` or `date:month`.
+ */
+export interface GroupBy {
+	key: string;
+	// How dates are grouped, or undefined to group by the raw value
+	granularity?: DateGranularity;
+}
+
+export type AggregateFunction = "sum" | "avg" | "min" | "max";
+
+/**
+ * An aggregate shown in the footer of a table, e.g. `sum(points)`.
+ */
+export interface Aggregate {
+	fn: AggregateFunction;
+	key: string;
+}
+
+/**
+ * A group of items sharing the same value.
+ */
+export interface Group<T> {
+	label: string;
+	items: T[];
+}
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ["sum", "avg", "min", "max"];
+const GRANULARITIES: DateGranularity[] = ["day", "month", "year"];
+
+/**
+ * Parse a group-by property such as `status`, `tags` or `date:month`.
+ * @param errors The messages of the language errors are written in, English by default
+ * @throws Error if the date granularity is unknown
+ */
+export function parseGroupBy(spec: string, errors: ErrorMessages = getLocale("en").errors): GroupBy {
+	const [key, granularity] = spec.trim().split(":");
+	if (key === "") {
+		throw new Error(errors.emptyGroupBy);
+	}
+	if (granularity === undefined) {
+		return { key };
+	}
+	if (!(GRANULARITIES as string[]).includes(granularity)) {
+		throw new Error(errors.unknownDateGrouping(granularity, GRANULARITIES));
+	}
+	return { key, granularity: granularity as DateGranularity };
+}
+
+/**
+ * Parse a comma-separated list of aggregates such as `sum(points),avg(rating)`.
+ * @param errors The messages of the language errors are written in, English by default
+ * @throws Error if an aggregate is malformed or uses an unknown function
+ */
+export function parseAggregates(spec: string, errors: ErrorMessages = getLocale("en").errors): Aggregate[] {
+	return spec.split(",").map((part) => {
+		const match = part.trim().match(/^(\w+)\((.+)\)$/);
+		if (match === null) {
+			throw new Error(errors.invalidAggregate(part.trim()));
+		}
+		const fn = match[1].toLowerCase();
+		if (!(AGGREGATE_FUNCTIONS as string[]).includes(fn)) {
+			throw new Error(errors.unknownAggregate(match[1], AGGREGATE_FUNCTIONS));
+		}
+		return { fn: fn as AggregateFunction, key: match[2].trim() };
+	});
+}
+
+function pad(num: number): string {
+	return num < 10 ? "0" + num : String(num);
+}
+
+/**
+ * Get the labels of the groups a value belongs to. Lists belong to a group per item and tags are grouped without their "#".
+ * @returns The labels, or an empty list if the value is not set
+ */
+export function getGroupLabels(value: unknown, granularity?: DateGranularity): string[] {
+	if (value === undefined || value === null || value === "") {
+		return [];
+	}
+	if (Array.isArray(value)) {
+		const labels = value.reduce<string[]>((all, item) => all.concat(getGroupLabels(item, granularity)), []);
+		return [...new Set(labels)];
+	}
+	if (granularity !== undefined) {
+		const date = value instanceof Date ? value : new Date(String(value));
+		if (isNaN(date.getTime())) {
+			return [];
+		}
+		const year = String(date.getFullYear());
+		if (granularity === "year") return [year];
+		if (granularity === "month") return [`${year}-${pad(date.getMonth() + 1)}`];
+		return [`${year}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`];
+	}
+	if (value instanceof Date) {
+		return getGroupLabels(value, "day");
+	}
+	return [String(value).replace(/^#/, "")];
+}
+
+/**
+ * Split items into groups, keeping the order of the items within each group.
+ * Groups are sorted by label in natural order, followed by the group of items without a value.
+ * @param items The items to group
+ * @param getLabels Get the labels of the groups an item belongs to
+ * @param emptyLabel The label of the group of items without a value
+ */
+export function groupItems<T>(items: T[], getLabels: (item: T) => string[], emptyLabel: string): Group<T>[] {
+	const groups = new Map<string, T[]>();
+	const empty: T[] = [];
+	for (const item of items) {
+		const labels = getLabels(item);
+		if (labels.length === 0) {
+			empty.push(item);
+		}
+		for (const label of labels) {
+			if (!groups.has(label)) {
+				groups.set(label, []);
+			}
+			groups.get(label).push(item);
+		}
+	}
+	const result = [...groups.entries()]
+		.sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" }))
+		.map(([label, groupItems]) => ({ label, items: groupItems }));
+	if (empty.length > 0) {
+		result.push({ label: emptyLabel, items: empty });
+	}
+	return result;
+}
+
+function formatNumber(num: number): string {
+	return String(Math.round(num * 100) / 100);
+}
+
+/**
+ * Compute an aggregate over the numeric values of a column. Values that are not numbers are ignored.
+ * @returns The formatted result, or an empty string if there are no numeric values
+ */
+export function computeAggregate(fn: AggregateFunction, values: unknown[]): string {
+	const numbers = values
+		.filter((value) => value !== null && value !== undefined && value !== "" && typeof value !== "boolean")
+		.map(Number)
+		.filter((num) => !isNaN(num));
+	if (numbers.length === 0) {
+		return "";
+	}
+	switch (fn) {
+		case "sum":
+			return formatNumber(numbers.reduce((a, b) => a + b, 0));
+		case "avg":
+			return formatNumber(numbers.reduce((a, b) => a + b, 0) / numbers.length);
+		case "min":
+			return formatNumber(Math.min(...numbers));
+		case "max":
+			return formatNumber(Math.max(...numbers));
+	}
+}
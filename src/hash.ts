@@ -0,0 +1,19 @@
+/**
+ * Normalize generated content before hashing so that trailing whitespace and blank lines around it do not count as edits.
+ */
+function normalize(text: string): string {
+	return text.split("\n").map((line) => line.trimEnd()).join("\n").trim();
+}
+
+/**
+ * Get a short hash (32-bit FNV-1a) of the content of a waypoint, used to detect when it was edited by hand.
+ */
+export function hashContent(text: string): string {
+	let hash = 0x811c9dc5;
+	const normalized = normalize(text);
+	for (let i = 0; i < normalized.length; i++) {
+		hash ^= normalized.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return ("0000000" + (hash >>> 0).toString(16)).slice(-8);
+}
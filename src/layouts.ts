@@ -0,0 +1,197 @@
+import { escapeCell, escapeText } from "./markdown";
+
+/**
+ * A single listed note or folder, shared by every layout.
+ */
+export interface WaypointRow {
+	// Link to the note (or folder note) with its title as the displayed text
+	link: string;
+	isFolder: boolean;
+	// How deep the row is nested below the listed folder, 0 for its direct children
+	depth: number;
+	// The Markdown of each column, in the same order as WaypointModel.columns
+	cells: string[];
+	// Markdown embed of the cover image, if any
+	cover: string | null;
+	excerpt: string | null;
+}
+
+/**
+ * The rows sharing the same value of the "groupBy" option, or every row if the waypoint is not grouped.
+ */
+export interface WaypointGroup {
+	// The value shared by the rows, or null if the waypoint is not grouped
+	label: string | null;
+	rows: WaypointRow[];
+	// The aggregates of each column, in the same order as WaypointModel.columns ("" for columns without one),
+	// or null if the waypoint has no aggregates
+	footer: string[] | null;
+}
+
+/**
+ * Everything a layout needs to render a waypoint.
+ */
+export interface WaypointModel {
+	heading: string;
+	// Links shown below the heading, e.g. to create a new file
+	actions: string[];
+	// The keys of the columns, e.g. "TITLE" or "status"
+	columns: string[];
+	// The displayed names of the columns, in the language of the generated text
+	headers: string[];
+	groups: WaypointGroup[];
+}
+
+export interface LayoutContext {
+	// The string used for each level of indentation
+	indent: string;
+	// The label of the footer holding the aggregates, e.g. "Total"
+	totalLabel: string;
+}
+
+export interface Layout {
+	// Whether rows keep the folder hierarchy (sorted within each folder) instead of being sorted as a single list
+	nested: boolean;
+	// Whether the rows need an excerpt of each note
+	excerpts: boolean;
+	// Render the rows of a single group, below its heading
+	render(model: WaypointModel, group: WaypointGroup, context: LayoutContext): string;
+}
+
+const CARDS_PER_ROW = 3;
+
+function renderHeader(model: WaypointModel): string {
+	let out = `# ${model.heading}`;
+	if (model.actions.length > 0) {
+		out += "\n" + model.actions.join(" | ");
+	}
+	return out + "\n";
+}
+
+/**
+ * The cells of a row other than its title, which is already part of the link.
+ */
+function getDetails(model: WaypointModel, row: WaypointRow): string[] {
+	return row.cells.filter((cell, i) => model.columns[i].toLowerCase() !== "title" && cell !== "");
+}
+
+/**
+ * The footer of a group as a single line, for layouts that are not tables.
+ */
+function renderFooterLine(model: WaypointModel, group: WaypointGroup, context: LayoutContext): string {
+	if (group.footer === null) {
+		return "";
+	}
+	const totals = group.footer
+		.map((cell, i) => cell === "" ? "" : `${model.headers[i]}: ${cell}`)
+		.filter((total) => total !== "");
+	if (totals.length === 0) {
+		return "";
+	}
+	return `\n\n**${context.totalLabel}:** ${totals.join(" · ")}`;
+}
+
+const tableLayout: Layout = {
+	nested: false,
+	excerpts: false,
+	render(model: WaypointModel, group: WaypointGroup, context: LayoutContext): string {
+		let out = "|" + model.headers.map(escapeCell).join("|") + "|\n|" + model.headers.map(() => "---").join("|") + "|\n";
+		for (const row of group.rows) {
+			out += "|" + row.cells.map(escapeCell).join("|") + "|\n";
+		}
+		// Groups without any value to aggregate have no footer, like in the other layouts
+		if (group.footer !== null && group.footer.some((cell) => cell !== "")) {
+			// Label the footer in the first column unless it holds an aggregate itself
+			const cells = group.footer.map((cell, i) => i === 0 && cell === "" ? `**${context.totalLabel}**` : cell);
+			out += "|" + cells.map(escapeCell).join("|") + "|\n";
+		}
+		return out;
+	}
+};
+
+const listLayout: Layout = {
+	nested: true,
+	excerpts: false,
+	render(model: WaypointModel, group: WaypointGroup, context: LayoutContext): string {
+		const lines = group.rows.map((row) => {
+			const details = getDetails(model, row);
+			const text = row.isFolder ? `**${row.link}**` : row.link;
+			return `${context.indent.repeat(row.depth)}- ${text}${details.length > 0 ? " · " + details.join(" · ") : ""}`;
+		});
+		return lines.join("\n") + renderFooterLine(model, group, context);
+	}
+};
+
+const cardsLayout: Layout = {
+	nested: false,
+	excerpts: true,
+	render(model: WaypointModel, group: WaypointGroup, context: LayoutContext): string {
+		const cards = group.rows.map((row) => {
+			return [row.cover, `**${row.link}**`, row.excerpt].filter(Boolean).map(escapeCell).join("<br>");
+		});
+		const columns = Math.min(CARDS_PER_ROW, Math.max(cards.length, 1));
+		let out = "|" + " |".repeat(columns) + "\n|" + "---|".repeat(columns) + "\n";
+		for (let i = 0; i < cards.length; i += columns) {
+			const cells = cards.slice(i, i + columns);
+			while (cells.length < columns) {
+				cells.push(" ");
+			}
+			out += "|" + cells.join("|") + "|\n";
+		}
+		return out + renderFooterLine(model, group, context).replace(/^\n/, "");
+	}
+};
+
+const inlineLayout: Layout = {
+	nested: false,
+	excerpts: false,
+	render(model: WaypointModel, group: WaypointGroup, context: LayoutContext): string {
+		return group.rows.map((row) => row.link).join(", ") + renderFooterLine(model, group, context);
+	}
+};
+
+const layouts = new Map<string, Layout>([
+	["table", tableLayout],
+	["list", listLayout],
+	["cards", cardsLayout],
+	["inline", inlineLayout],
+]);
+
+/**
+ * Get the layout with the given name, or undefined if there is none.
+ */
+export function getLayout(name: string): Layout | undefined {
+	return layouts.get(name);
+}
+
+/**
+ * Render a waypoint with the given layout. Each group is rendered below a sub-heading with its number of rows.
+ */
+export function renderLayout(layout: Layout, model: WaypointModel, context: LayoutContext): string {
+	let out = renderHeader(model);
+	model.groups.forEach((group, i) => {
+		if (i > 0 && !out.endsWith("\n")) {
+			out += "\n";
+		}
+		out += "\n";
+		if (group.label !== null) {
+			out += `## ${escapeText(group.label)} (${group.rows.length})\n\n`;
+		}
+		out += layout.render(model, group, context);
+	});
+	return out;
+}
+
+/**
+ * The names of every available layout.
+ */
+export function getLayoutNames(): string[] {
+	return [...layouts.keys()];
+}
+
+/**
+ * Add a layout (or replace an existing one) so that it can be selected with the "layout" option.
+ */
+export function registerLayout(name: string, layout: Layout) {
+	layouts.set(name, layout);
+}
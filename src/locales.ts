@@ -0,0 +1,314 @@
+/**
+ * Text written into generated waypoints, in each bundled language.
+ */
+export interface Locale {
+	// The displayed names of the built-in TITLE and DATE columns
+	headers: { title: string; date: string };
+	newFile: string;
+	newFolder: string;
+	// The label of the footer holding the aggregates
+	total: string;
+	// The label of the group of rows that have no value for the grouped property
+	noValue: (key: string) => string;
+	// Sunday first
+	weekdays: string[];
+	weekdaysShort: string[];
+	months: string[];
+	monthsShort: string[];
+	relative: {
+		today: string;
+		yesterday: string;
+		tomorrow: string;
+		past: (amount: number, unit: RelativeUnit) => string;
+		future: (amount: number, unit: RelativeUnit) => string;
+	};
+	errors: ErrorMessages;
+}
+
+/**
+ * The errors written in place of a waypoint. Positions in filters are counted from 1.
+ */
+export interface ErrorMessages {
+	prefix: string;
+	moreInfo: string;
+	rootFolder: (type: string) => string;
+	notFolderNote: (type: string) => string;
+	// Inline options
+	invalidOptions: (options: string) => string;
+	invalidChoice: (option: string, value: string, choices: string[]) => string;
+	notPositive: (option: string, value: string) => string;
+	unknownOption: (option: string) => string;
+	// Filters
+	invalidFilter: (filter: string, reason: string) => string;
+	emptyFilter: string;
+	unterminatedString: (position: number) => string;
+	unexpected: (text: string, position: number) => string;
+	missingParenthesis: (position: number) => string;
+	expectedCondition: (after: string, position: number) => string;
+	expectedProperty: (found: string, position: number) => string;
+	expectedValue: (after: string, position: number) => string;
+	unexpectedValue: (found: string, position: number) => string;
+	// Columns, sorting and grouping
+	unknownColumnType: (type: string, column: string, types: string[]) => string;
+	invalidSortOrder: (order: string) => string;
+	emptySortOrder: string;
+	unknownSortGroup: (group: string, groups: string[]) => string;
+	emptyGroupBy: string;
+	unknownDateGrouping: (granularity: string, granularities: string[]) => string;
+	invalidAggregate: (aggregate: string) => string;
+	unknownAggregate: (fn: string, fns: string[]) => string;
+	cannotAggregate: (key: string) => string;
+	// Problems listed in the dashboard
+	missingEndMarker: string;
+	editedByHand: string;
+	unknownColumn: (key: string) => string;
+}
+
+export type RelativeUnit = "day" | "month" | "year";
+
+const INSTRUCTIONS_URL = "https://github.com/IdreesInc/Waypoint";
+
+const EN_UNITS: Record<RelativeUnit, [string, string]> = { day: ["day", "days"], month: ["month", "months"], year: ["year", "years"] };
+const KO_UNITS: Record<RelativeUnit, string> = { day: "일", month: "개월", year: "년" };
+// Dative forms, as used after "vor" and "in"
+const DE_UNITS: Record<RelativeUnit, [string, string]> = { day: ["Tag", "Tagen"], month: ["Monat", "Monaten"], year: ["Jahr", "Jahren"] };
+
+const en: Locale = {
+	headers: { title: "TITLE", date: "DATE" },
+	newFile: "new file",
+	newFolder: "new folder",
+	total: "Total",
+	noValue: (key) => `No ${key}`,
+	weekdays: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+	weekdaysShort: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+	months: ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"],
+	monthsShort: ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"],
+	relative: {
+		today: "today",
+		yesterday: "yesterday",
+		tomorrow: "tomorrow",
+		past: (amount, unit) => `${amount} ${EN_UNITS[unit][amount === 1 ? 0 : 1]} ago`,
+		future: (amount, unit) => `in ${amount} ${EN_UNITS[unit][amount === 1 ? 0 : 1]}`
+	},
+	errors: {
+		prefix: "Error",
+		moreInfo: `For more information, check the instructions [here](${INSTRUCTIONS_URL})`,
+		rootFolder: (type) => `Cannot create a ${type} in the root folder of your vault`,
+		notFolderNote: (type) => `Cannot create a ${type} in a note that's not the folder note`,
+		invalidOptions: (options) => `Unable to parse options "${options}", they must be written as key:value`,
+		invalidChoice: (option, value, choices) => `Option "${option}" must be one of ${choices.join(", ")}, got "${value}"`,
+		notPositive: (option, value) => `Option "${option}" must be a positive number, got "${value}"`,
+		unknownOption: (option) => `Unknown option "${option}"`,
+		invalidFilter: (filter, reason) => `Invalid filter "${filter}": ${reason}`,
+		emptyFilter: "Filter is empty",
+		unterminatedString: (position) => `Unterminated string at position ${position}`,
+		unexpected: (text, position) => `Unexpected "${text}" at position ${position}`,
+		missingParenthesis: (position) => `Missing ")" for "(" at position ${position}`,
+		expectedCondition: (after, position) => `Expected a condition after "${after}" at position ${position}`,
+		expectedProperty: (found, position) => `Expected a property name but found "${found}" at position ${position}`,
+		expectedValue: (after, position) => `Expected a value after "${after}" at position ${position}`,
+		unexpectedValue: (found, position) => `Expected a value but found "${found}" at position ${position}`,
+		unknownColumnType: (type, column, types) => `Unknown type "${type}" for column "${column}", expected one of ${types.join(", ")}`,
+		invalidSortOrder: (order) => `Invalid sort order "${order}"`,
+		emptySortOrder: "Sort order cannot be empty",
+		unknownSortGroup: (group, groups) => `Unknown sort grouping "${group}", expected one of ${groups.join(", ")}`,
+		emptyGroupBy: "Group-by property cannot be empty",
+		unknownDateGrouping: (granularity, granularities) => `Unknown date grouping "${granularity}", expected one of ${granularities.join(", ")}`,
+		invalidAggregate: (aggregate) => `Invalid aggregate "${aggregate}", expected e.g. sum(points)`,
+		unknownAggregate: (fn, fns) => `Unknown aggregate "${fn}", expected one of ${fns.join(", ")}`,
+		cannotAggregate: (key) => `Cannot aggregate "${key}" as it is not one of the columns`,
+		missingEndMarker: "Not updated as its end marker is missing",
+		editedByHand: "Not updated as it was edited by hand",
+		unknownColumn: (key) => `Unknown column "${key}", none of the listed notes has this property`
+	}
+};
+
+const ko: Locale = {
+	headers: { title: "제목", date: "날짜" },
+	newFile: "새 파일",
+	newFolder: "새 폴더",
+	total: "합계",
+	noValue: (key) => `${key} 없음`,
+	weekdays: ["일요일", "월요일", "화요일", "수요일", "목요일", "금요일", "토요일"],
+	weekdaysShort: ["일", "월", "화", "수", "목", "금", "토"],
+	months: ["1월", "2월", "3월", "4월", "5월", "6월", "7월", "8월", "9월", "10월", "11월", "12월"],
+	monthsShort: ["1월", "2월", "3월", "4월", "5월", "6월", "7월", "8월", "9월", "10월", "11월", "12월"],
+	relative: {
+		today: "오늘",
+		yesterday: "어제",
+		tomorrow: "내일",
+		past: (amount, unit) => `${amount}${KO_UNITS[unit]} 전`,
+		future: (amount, unit) => `${amount}${KO_UNITS[unit]} 후`
+	},
+	errors: {
+		prefix: "오류",
+		moreInfo: `자세한 내용은 [여기](${INSTRUCTIONS_URL})의 안내를 참고하세요`,
+		rootFolder: (type) => `볼트의 최상위 폴더에는 ${type}을(를) 만들 수 없습니다`,
+		notFolderNote: (type) => `폴더 노트가 아닌 노트에는 ${type}을(를) 만들 수 없습니다`,
+		invalidOptions: (options) => `옵션 "${options}"을(를) 읽을 수 없습니다. key:value 형식으로 작성해야 합니다`,
+		invalidChoice: (option, value, choices) => `"${option}" 옵션은 ${choices.join(", ")} 중 하나여야 하지만 "${value}"입니다`,
+		notPositive: (option, value) => `"${option}" 옵션은 양수여야 하지만 "${value}"입니다`,
+		unknownOption: (option) => `알 수 없는 옵션 "${option}"`,
+		invalidFilter: (filter, reason) => `잘못된 필터 "${filter}": ${reason}`,
+		emptyFilter: "필터가 비어 있습니다",
+		unterminatedString: (position) => `${position}번째 위치의 문자열이 닫히지 않았습니다`,
+		unexpected: (text, position) => `${position}번째 위치에 예상하지 못한 "${text}"이(가) 있습니다`,
+		missingParenthesis: (position) => `${position}번째 위치의 "("에 대한 ")"가 없습니다`,
+		expectedCondition: (after, position) => `${position}번째 위치의 "${after}" 뒤에 조건이 필요합니다`,
+		expectedProperty: (found, position) => `${position}번째 위치에 속성 이름이 필요하지만 "${found}"이(가) 있습니다`,
+		expectedValue: (after, position) => `${position}번째 위치의 "${after}" 뒤에 값이 필요합니다`,
+		unexpectedValue: (found, position) => `${position}번째 위치에 값이 필요하지만 "${found}"이(가) 있습니다`,
+		unknownColumnType: (type, column, types) => `"${column}" 열의 유형 "${type}"을(를) 알 수 없습니다. ${types.join(", ")} 중 하나여야 합니다`,
+		invalidSortOrder: (order) => `잘못된 정렬 순서 "${order}"`,
+		emptySortOrder: "정렬 순서가 비어 있습니다",
+		unknownSortGroup: (group, groups) => `알 수 없는 정렬 그룹 "${group}", ${groups.join(", ")} 중 하나여야 합니다`,
+		emptyGroupBy: "그룹 기준 속성이 비어 있습니다",
+		unknownDateGrouping: (granularity, granularities) => `알 수 없는 날짜 그룹 "${granularity}", ${granularities.join(", ")} 중 하나여야 합니다`,
+		invalidAggregate: (aggregate) => `잘못된 집계 "${aggregate}", 예: sum(points)`,
+		unknownAggregate: (fn, fns) => `알 수 없는 집계 "${fn}", ${fns.join(", ")} 중 하나여야 합니다`,
+		cannotAggregate: (key) => `"${key}"은(는) 열이 아니므로 집계할 수 없습니다`,
+		missingEndMarker: "끝 표시가 없어 업데이트되지 않았습니다",
+		editedByHand: "직접 수정되어 업데이트되지 않았습니다",
+		unknownColumn: (key) => `알 수 없는 열 "${key}", 나열된 노트 중 이 속성이 있는 노트가 없습니다`
+	}
+};
+
+const de: Locale = {
+	headers: { title: "TITEL", date: "DATUM" },
+	newFile: "neue Datei",
+	newFolder: "neuer Ordner",
+	total: "Summe",
+	noValue: (key) => `Ohne ${key}`,
+	weekdays: ["Sonntag", "Montag", "Dienstag", "Mittwoch", "Donnerstag", "Freitag", "Samstag"],
+	weekdaysShort: ["So", "Mo", "Di", "Mi", "Do", "Fr", "Sa"],
+	months: ["Januar", "Februar", "März", "April", "Mai", "Juni", "Juli", "August", "September", "Oktober", "November", "Dezember"],
+	monthsShort: ["Jan.", "Feb.", "März", "Apr.", "Mai", "Juni", "Juli", "Aug.", "Sept.", "Okt.", "Nov.", "Dez."],
+	relative: {
+		today: "heute",
+		yesterday: "gestern",
+		tomorrow: "morgen",
+		past: (amount, unit) => `vor ${amount} ${DE_UNITS[unit][amount === 1 ? 0 : 1]}`,
+		future: (amount, unit) => `in ${amount} ${DE_UNITS[unit][amount === 1 ? 0 : 1]}`
+	},
+	errors: {
+		prefix: "Fehler",
+		moreInfo: `Weitere Informationen finden sich in der [Anleitung](${INSTRUCTIONS_URL})`,
+		rootFolder: (type) => `Im Hauptordner des Vaults kann kein ${type} erstellt werden`,
+		notFolderNote: (type) => `Ein ${type} kann nur in der Ordnernotiz erstellt werden`,
+		invalidOptions: (options) => `Die Optionen "${options}" können nicht gelesen werden, sie müssen als key:value geschrieben werden`,
+		invalidChoice: (option, value, choices) => `Die Option "${option}" muss einer der Werte ${choices.join(", ")} sein, nicht "${value}"`,
+		notPositive: (option, value) => `Die Option "${option}" muss eine positive Zahl sein, nicht "${value}"`,
+		unknownOption: (option) => `Unbekannte Option "${option}"`,
+		invalidFilter: (filter, reason) => `Ungültiger Filter "${filter}": ${reason}`,
+		emptyFilter: "Der Filter ist leer",
+		unterminatedString: (position) => `Nicht abgeschlossener Text an Position ${position}`,
+		unexpected: (text, position) => `Unerwartetes "${text}" an Position ${position}`,
+		missingParenthesis: (position) => `Fehlendes ")" für "(" an Position ${position}`,
+		expectedCondition: (after, position) => `Bedingung erwartet nach "${after}" an Position ${position}`,
+		expectedProperty: (found, position) => `Eigenschaftsname erwartet, aber "${found}" an Position ${position} gefunden`,
+		expectedValue: (after, position) => `Wert erwartet nach "${after}" an Position ${position}`,
+		unexpectedValue: (found, position) => `Wert erwartet, aber "${found}" an Position ${position} gefunden`,
+		unknownColumnType: (type, column, types) => `Unbekannter Typ "${type}" für die Spalte "${column}", erwartet wird einer von ${types.join(", ")}`,
+		invalidSortOrder: (order) => `Ungültige Sortierung "${order}"`,
+		emptySortOrder: "Die Sortierung darf nicht leer sein",
+		unknownSortGroup: (group, groups) => `Unbekannte Sortiergruppe "${group}", erwartet wird eine von ${groups.join(", ")}`,
+		emptyGroupBy: "Die Eigenschaft zum Gruppieren darf nicht leer sein",
+		unknownDateGrouping: (granularity, granularities) => `Unbekannte Datumsgruppierung "${granularity}", erwartet wird eine von ${granularities.join(", ")}`,
+		invalidAggregate: (aggregate) => `Ungültige Aggregation "${aggregate}", erwartet wird z. B. sum(points)`,
+		unknownAggregate: (fn, fns) => `Unbekannte Aggregation "${fn}", erwartet wird eine von ${fns.join(", ")}`,
+		cannotAggregate: (key) => `"${key}" kann nicht aggregiert werden, da es keine der Spalten ist`,
+		missingEndMarker: "Nicht aktualisiert, da die Endmarkierung fehlt",
+		editedByHand: "Nicht aktualisiert, da von Hand bearbeitet",
+		unknownColumn: (key) => `Unbekannte Spalte "${key}", keine der aufgelisteten Notizen hat diese Eigenschaft`
+	}
+};
+
+const locales = new Map<string, Locale>([
+	["en", en],
+	["ko", ko],
+	["de", de],
+]);
+
+/**
+ * The codes of every bundled language.
+ */
+export function getLocaleCodes(): string[] {
+	return [...locales.keys()];
+}
+
+/**
+ * Get the bundled language matching the given code, e.g. "ko" or "de-at", falling back to English.
+ */
+export function getLocale(code: string): Locale {
+	const normalized = code.trim().toLowerCase();
+	return locales.get(normalized) ?? locales.get(normalized.split(/[-_]/)[0]) ?? en;
+}
+
+/**
+ * Write an error in place of a waypoint, as a comment so that it is only shown while editing.
+ */
+export function formatErrorComment(locale: Locale, message: string): string {
+	return `%% ${locale.errors.prefix}: ${message}. ${locale.errors.moreInfo} %%`;
+}
+
+/**
+ * Read an error written by formatErrorComment in any bundled language, e.g. to list it after the language was changed.
+ * @param line A line of a note, which may be part of a callout
+ * @returns The message of the error, or null if the line is not an error comment
+ */
+export function parseErrorComment(line: string): string | null {
+	const comment = line.trim().replace(/^>\s*/, "");
+	for (const locale of locales.values()) {
+		const prefix = `%% ${locale.errors.prefix}: `;
+		const suffix = `. ${locale.errors.moreInfo} %%`;
+		if (comment.startsWith(prefix) && comment.endsWith(suffix) && comment.length >= prefix.length + suffix.length) {
+			return comment.substring(prefix.length, comment.length - suffix.length);
+		}
+	}
+	return null;
+}
+
+/**
+ * Replace the weekday and month names of a moment-style format with those of the given language, as literal text,
+ * so that dates read the same whatever the language of the moment instance. Text in brackets is left as it is.
+ * @param format The format, e.g. "YYYY-MM-DD (ddd)"
+ * @param date The date the format will be applied to
+ */
+export function localizeDateFormat(format: string, date: Date, locale: Locale): string {
+	const names: Record<string, string> = {
+		dddd: locale.weekdays[date.getDay()],
+		ddd: locale.weekdaysShort[date.getDay()],
+		MMMM: locale.months[date.getMonth()],
+		MMM: locale.monthsShort[date.getMonth()]
+	};
+	return format.replace(/\[[^\]]*\]|dddd|ddd|MMMM|MMM/g, (token) => names[token] !== undefined ? `[${names[token]}]` : token);
+}
+
+/**
+ * Describe a date relative to another in whole days, months or years, e.g. "3 days ago" or "in 2 months".
+ * @param now The date it is relative to, usually today
+ */
+export function formatRelativeDate(date: Date, now: Date, locale: Locale): string {
+	const startOfDay = (d: Date) => Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+	const days = Math.round((startOfDay(date) - startOfDay(now)) / 86400000);
+	if (days === 0) {
+		return locale.relative.today;
+	}
+	if (days === -1) {
+		return locale.relative.yesterday;
+	}
+	if (days === 1) {
+		return locale.relative.tomorrow;
+	}
+	const distance = Math.abs(days);
+	let amount = distance;
+	let unit: RelativeUnit = "day";
+	if (distance >= 365) {
+		amount = Math.floor(distance / 365);
+		unit = "year";
+	} else if (distance >= 30) {
+		amount = Math.floor(distance / 30);
+		unit = "month";
+	}
+	return days < 0 ? locale.relative.past(amount, unit) : locale.relative.future(amount, unit);
+}
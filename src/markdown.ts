@@ -0,0 +1,88 @@
+/**
+ * Serialization of generated Markdown, so that values and file names cannot break the table or list they are written into.
+ */
+
+/**
+ * Flatten a value onto a single line.
+ */
+function flatten(value: string): string {
+	return value.replace(/\s*\r?\n\s*/g, " ");
+}
+
+/**
+ * Escape a value so that it stays within its table cell: pipes are escaped (including those of link aliases,
+ * which Obsidian supports within tables) and line breaks are flattened.
+ */
+export function escapeCell(value: string): string {
+	return flatten(value).replace(/\\?\|/g, "\\|");
+}
+
+/**
+ * Escape text taken from a property so that it is shown as written: line breaks are flattened, a leading "#" does not
+ * turn into a heading or tag, and "[[" or "]]" without their counterpart do not swallow the rest of the line.
+ * Complete links such as `[[Note]]` are kept so that they still work.
+ */
+export function escapeText(value: string): string {
+	const text = flatten(value).replace(/^#/, "\\#");
+	const parts = text.split(/(\[\[[^[\]]*\]\])/);
+	return parts
+		.map((part, i) => i % 2 === 1 ? part : part.replace(/\[\[/g, "\\[\\[").replace(/\]\]/g, "\\]\\]"))
+		.join("");
+}
+
+/**
+ * Create a wikilink to the given link text with the given name. Pipes cannot appear in an alias so they are replaced,
+ * and double brackets (or a closing bracket at the end) are spaced out so they do not end the link early.
+ */
+export function wikiLink(target: string, name: string): string {
+	const alias = flatten(name)
+		.replace(/\|/g, "-")
+		.replace(/\[\[/g, "[ [")
+		.replace(/\]\]/g, "] ]")
+		.replace(/\]$/, "] ");
+	return `[[${target}|${alias}]]`;
+}
+
+/**
+ * Create a Markdown link to the given (already encoded) target with the given name.
+ */
+export function markdownLink(target: string, name: string): string {
+	return `[${flatten(name).replace(/([[\]\\])/g, "\\$1")}](${target})`;
+}
+
+/**
+ * Turn generated Markdown back into the text it shows, e.g. to export it: links are replaced by their displayed text
+ * (or the name of the linked file) and escaped characters are unescaped.
+ */
+export function markdownToText(markdown: string): string {
+	return markdown
+		.replace(/!?\[\[([^[\]|]*)(?:\|((?:[^\]]|\](?!\]))*))?\]\]/g, (match: string, target: string, alias?: string) => alias ?? target.split("/").pop())
+		.replace(/!?\[((?:\\.|[^\]\\])*)\]\([^)]*\)/g, "$1")
+		.replace(/\\([\\|#[\]])/g, "$1");
+}
+
+/**
+ * Encode each segment of a path for use as the target of a Markdown link, keeping the slashes between them.
+ */
+export function encodeLinkPath(path: string): string {
+	return path
+		.split("/")
+		.map((segment) => encodeURIComponent(segment).replace(/[()]/g, (char) => "%" + char.charCodeAt(0).toString(16).toUpperCase()))
+		.join("/");
+}
+
+/**
+ * Get the path of a file relative to the folder at the given path, e.g. `../Other/Note.md`.
+ * @param fromFolder The path of the folder, or "" or "/" for the root of the vault
+ * @param path The path of the file from the root of the vault
+ */
+export function getRelativePath(fromFolder: string, path: string): string {
+	const from = fromFolder === "/" ? [] : fromFolder.split("/").filter((part) => part !== "");
+	const to = path.split("/");
+	let common = 0;
+	while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+		common++;
+	}
+	const up = from.length - common;
+	return (up === 0 ? "./" : "../".repeat(up)) + to.slice(common).join("/");
+}
@@ -0,0 +1,74 @@
+interface QueuedTask {
+	run: () => Promise<void>;
+	promise: Promise<void>;
+	resolve: () => void;
+}
+
+/**
+ * Runs updates one at a time so that the read-modify-write cycles of a note never interleave.
+ * Updates of a key that is already waiting are coalesced into a single update, which runs the latest task.
+ */
+export class UpdateQueue {
+	private order: string[] = [];
+	private waiting = new Map<string, QueuedTask>();
+	private running = false;
+	private completed = 0;
+
+	/**
+	 * @param onProgress Called whenever an update starts or the queue empties, with the number of completed and total updates
+	 * @param onError Called when an update fails, after which the queue carries on with the next update
+	 */
+	constructor(
+		private onProgress: (completed: number, total: number) => void,
+		private onError: (key: string, error: Error) => void
+	) {}
+
+	/**
+	 * Queue an update of the given key, or replace the task of the update already waiting for it.
+	 * @returns A promise resolved once the update has run, whether or not it succeeded
+	 */
+	enqueue(key: string, run: () => Promise<void>): Promise<void> {
+		const queued = this.waiting.get(key);
+		if (queued !== undefined) {
+			queued.run = run;
+			return queued.promise;
+		}
+		let resolve: () => void;
+		const promise = new Promise<void>((res) => resolve = res);
+		this.waiting.set(key, { run, promise, resolve });
+		this.order.push(key);
+		this.process();
+		return promise;
+	}
+
+	/**
+	 * The number of updates that have not finished yet.
+	 */
+	get size(): number {
+		return this.order.length + (this.running ? 1 : 0);
+	}
+
+	private async process() {
+		if (this.running) {
+			return;
+		}
+		this.running = true;
+		while (this.order.length > 0) {
+			const key = this.order.shift();
+			const task = this.waiting.get(key);
+			// Updates of this key queued from now on run after this one instead of being coalesced into it
+			this.waiting.delete(key);
+			this.onProgress(this.completed, this.completed + this.order.length + 1);
+			try {
+				await task.run();
+			} catch (e) {
+				this.onError(key, e);
+			}
+			this.completed++;
+			task.resolve();
+		}
+		this.running = false;
+		this.completed = 0;
+		this.onProgress(0, 0);
+	}
+}
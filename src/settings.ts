@@ -0,0 +1,77 @@
+import { SortGroup } from "./sort";
+
+export enum FolderNoteType {
+	InsideFolder = "INSIDE_FOLDER",
+	OutsideFolder = "OUTSIDE_FOLDER",
+}
+
+export enum RenderMode {
+	Table = "table",
+	Tree = "tree",
+	Both = "both",
+}
+
+export enum WaypointType {
+	Waypoint = "waypoint",
+	Landmark = "landmark",
+}
+
+export interface WaypointSettings {
+	waypointFlag: string;
+	landmarkFlag: string;
+	stopScanAtFolderNotes: boolean;
+	showFolderNotes: boolean;
+	showNonMarkdownFiles: boolean;
+	debugLogging: boolean;
+	useWikiLinks: boolean;
+	useFrontMatterTitle: boolean;
+	showEnclosingNote: boolean;
+	folderNoteType: string;
+	folderNoteName: string;
+	renameFolderNotes: boolean;
+	ignorePaths: string[];
+	useSpaces: boolean;
+	numSpaces: number;
+	sortOrder: string;
+	sortGroup: string;
+	naturalSort: boolean;
+	renderMode: string;
+	layout: string;
+	coverProperty: string;
+	backupFolder: string;
+	templatePath: string;
+	language: string;
+	dateFormat: string;
+	autoExportFormat: string;
+	exportFolder: string;
+}
+
+export const DEFAULT_SETTINGS: WaypointSettings = {
+	waypointFlag: "%% Waypoint %%",
+	landmarkFlag: "%% Landmark %%",
+	stopScanAtFolderNotes: false,
+	showFolderNotes: false,
+	showNonMarkdownFiles: false,
+	debugLogging: true,
+	useWikiLinks: true,
+	useFrontMatterTitle: false,
+	showEnclosingNote: false,
+	folderNoteType: FolderNoteType.InsideFolder,
+	folderNoteName: "",
+	renameFolderNotes: false,
+	ignorePaths: ["_attachments"],
+	useSpaces: false,
+	numSpaces: 2,
+	sortOrder: "-ctime",
+	sortGroup: SortGroup.FoldersFirst,
+	naturalSort: true,
+	renderMode: RenderMode.Table,
+	layout: "table",
+	coverProperty: "cover",
+	backupFolder: "Waypoint Backups",
+	templatePath: "",
+	language: "auto",
+	dateFormat: "YYYY-MM-DD (ddd)",
+	autoExportFormat: "",
+	exportFolder: ""
+};
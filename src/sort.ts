@@ -0,0 +1,115 @@
+import { ErrorMessages, getLocale } from "./locales";
+
+export enum SortGroup {
+	FoldersFirst = "folders-first",
+	FilesFirst = "files-first",
+	Mixed = "mixed",
+}
+
+/**
+ * A single key of a sort order, e.g. `-date`.
+ */
+export interface SortKey {
+	key: string;
+	descending: boolean;
+}
+
+/**
+ * Parse a sort order such as `-date, title` into its keys. Keys are separated by commas and
+ * prefixed with "-" for descending order (or optionally "+" for ascending order).
+ * @param errors The messages of the language errors are written in, English by default
+ * @throws Error if the sort order is empty or contains an empty key
+ */
+export function parseSortOrder(order: string | string[], errors: ErrorMessages = getLocale("en").errors): SortKey[] {
+	const parts = Array.isArray(order) ? order.map(String) : order.split(",");
+	const keys: SortKey[] = [];
+	for (const part of parts) {
+		const trimmed = part.trim();
+		const key = trimmed.replace(/^[-+]/, "").trim();
+		if (key === "") {
+			throw new Error(errors.invalidSortOrder(parts.join(",")));
+		}
+		keys.push({ key, descending: trimmed.startsWith("-") });
+	}
+	if (keys.length === 0) {
+		throw new Error(errors.emptySortOrder);
+	}
+	return keys;
+}
+
+/**
+ * Parse the folder grouping of a sort, e.g. `folders-first`.
+ * @param errors The messages of the language errors are written in, English by default
+ * @throws Error if the value is not a known grouping
+ */
+export function parseSortGroup(group: string, errors: ErrorMessages = getLocale("en").errors): SortGroup {
+	const normalized = group.trim().toLowerCase();
+	for (const value of Object.values(SortGroup)) {
+		if (value === normalized) {
+			return value;
+		}
+	}
+	throw new Error(errors.unknownSortGroup(group, Object.values(SortGroup)));
+}
+
+function isMissing(value: unknown): boolean {
+	return value === undefined || value === null || value === "" || (typeof value === "number" && isNaN(value));
+}
+
+/**
+ * Compare two property values. Numbers are compared numerically and everything else as text,
+ * optionally in natural order so that "Chapter 2" comes before "Chapter 10".
+ */
+export function compareValues(a: unknown, b: unknown, natural: boolean): number {
+	if (typeof a === "number" && typeof b === "number") {
+		return a - b;
+	}
+	if (typeof a === "boolean" && typeof b === "boolean") {
+		return Number(a) - Number(b);
+	}
+	const aText = Array.isArray(a) ? a.join(", ") : String(a);
+	const bText = Array.isArray(b) ? b.join(", ") : String(b);
+	if (natural) {
+		return aText.localeCompare(bText, undefined, { numeric: true, sensitivity: "base" });
+	}
+	return aText < bText ? -1 : aText > bText ? 1 : 0;
+}
+
+/**
+ * Create a comparator that sorts by each key in turn, using the following keys to break ties.
+ * Items without a value for a key are always sorted after the items that have one.
+ * @param keys The sort keys in order of priority
+ * @param group Whether folders should be grouped before or after files
+ * @param natural Whether text should be compared in natural order
+ * @param valueOf Get the value of the given key for an item
+ * @param isFolder Whether the given item is a folder
+ */
+export function createComparator<T>(
+	keys: SortKey[],
+	group: SortGroup,
+	natural: boolean,
+	valueOf: (item: T, key: string) => unknown,
+	isFolder: (item: T) => boolean
+): (a: T, b: T) => number {
+	return (a: T, b: T) => {
+		if (group !== SortGroup.Mixed && isFolder(a) !== isFolder(b)) {
+			const folderFirst = isFolder(a) ? -1 : 1;
+			return group === SortGroup.FoldersFirst ? folderFirst : -folderFirst;
+		}
+		for (const { key, descending } of keys) {
+			const aValue = valueOf(a, key);
+			const bValue = valueOf(b, key);
+			if (isMissing(aValue) || isMissing(bValue)) {
+				if (isMissing(aValue) && isMissing(bValue)) {
+					continue;
+				}
+				return isMissing(aValue) ? 1 : -1;
+			}
+			const result = compareValues(aValue, bValue, natural);
+			if (result !== 0) {
+				return descending ? -result : result;
+			}
+		}
+		return 0;
+	};
+}
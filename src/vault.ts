@@ -0,0 +1,56 @@
+/**
+ * The parts of a vault that waypoints are generated from, so that they can be generated outside of Obsidian.
+ * Obsidian's own files, folders and metadata already have this shape.
+ */
+
+export interface VaultNode {
+	path: string;
+	name: string;
+	// null for the root folder
+	parent: VaultFolder | null;
+}
+
+export interface VaultFile extends VaultNode {
+	basename: string;
+	extension: string;
+	stat: { ctime: number; mtime: number; size: number };
+}
+
+export interface VaultFolder extends VaultNode {
+	children: VaultNode[];
+	isRoot(): boolean;
+}
+
+/**
+ * The metadata of a note that waypoints use, as parsed by Obsidian's metadata cache.
+ */
+export interface FileMetadata {
+	frontmatter?: Record<string, unknown>;
+	headings?: { heading: string; level: number }[];
+	// The character between the brackets of tasks, e.g. " " or "x", and undefined for list items that are not tasks
+	listItems?: { task?: string }[];
+	links?: { link: string }[];
+}
+
+export interface Vault {
+	getRoot(): VaultFolder;
+	// The file or folder at the given path, or null if there is none
+	getNode(path: string): VaultNode | null;
+	// Read a note, possibly from a cache
+	read(file: VaultFile): Promise<string>;
+	getMetadata(file: VaultFile): FileMetadata | null;
+	// The number of links from each note (by path) to each file it links to (by path)
+	getResolvedLinks(): Record<string, Record<string, number>>;
+	// The text linking to the given file from the given note in a wikilink, without the ".md" extension
+	getLinkText(file: VaultFile, sourcePath: string): string;
+	// How Obsidian is set to write new links: "shortest", "relative" or "absolute"
+	getLinkFormat(): string;
+}
+
+export function isFile(node: VaultNode | null | undefined): node is VaultFile {
+	return node !== null && node !== undefined && (node as VaultFile).extension !== undefined;
+}
+
+export function isFolder(node: VaultNode | null | undefined): node is VaultFolder {
+	return node !== null && node !== undefined && (node as VaultFolder).children !== undefined;
+}